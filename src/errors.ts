@@ -0,0 +1,34 @@
+/**
+ * Error codes reported in TaskError.code and in tool error results.
+ */
+export type ErrorCode =
+  | 'INPUT_TOO_LARGE'
+  | 'QUEUE_FULL'
+  | 'COMPRESSION_FAILED'
+  | 'INTERRUPTED'
+  | 'ACCESS_DENIED'
+  | 'FILE_NOT_FOUND'
+  | 'BASELINE_NOT_FOUND'
+  | 'INVALID_CONFIG';
+
+/**
+ * Error with a machine-readable code.
+ * Thrown by the compression pipeline, worker pool, and file reader so callers can
+ * report a specific failure instead of inferring one from the message.
+ */
+export class CompressionError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CompressionError';
+  }
+}
+
+/**
+ * Get the error code for any thrown value.
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof CompressionError ? error.code : 'COMPRESSION_FAILED';
+}
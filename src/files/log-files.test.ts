@@ -0,0 +1,68 @@
+import { before, after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resolveLogFiles } from './log-files.js';
+import { CompressionError } from '../errors.js';
+
+// <tmp>/root is the allowed root; <tmp>/outside is not
+let base: string;
+let root: string;
+
+before(() => {
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'logpare-files-')));
+  root = join(base, 'root');
+  mkdirSync(join(root, 'logs', 'nested', 'deeper'), { recursive: true });
+  mkdirSync(join(base, 'outside'));
+
+  writeFileSync(join(root, 'logs', 'a.log'), 'a\n');
+  writeFileSync(join(root, 'logs', 'b.log'), 'b\n');
+  writeFileSync(join(root, 'logs', 'c.txt'), 'c\n');
+  writeFileSync(join(root, 'logs', 'nested', 'n.log'), 'n\n');
+  writeFileSync(join(root, 'logs', 'nested', 'deeper', 'd.log'), 'd\n');
+  writeFileSync(join(base, 'outside', 'secret.log'), 'secret\n');
+  symlinkSync(join(base, 'outside', 'secret.log'), join(root, 'logs', 'link.log'));
+  symlinkSync(join(base, 'outside'), join(root, 'logs', 'linked-dir'));
+});
+
+after(() => rmSync(base, { recursive: true, force: true }));
+
+function denied(error: unknown): boolean {
+  return error instanceof CompressionError && error.code === 'ACCESS_DENIED';
+}
+
+test('a single * matches one level, ** any depth, [...] a class', async () => {
+  assert.deepEqual(await resolveLogFiles(['logs/*.log'], [root]), [
+    join(root, 'logs', 'a.log'),
+    join(root, 'logs', 'b.log'),
+  ]);
+  assert.deepEqual(await resolveLogFiles(['logs/*/*.log'], [root]), [
+    join(root, 'logs', 'nested', 'n.log'),
+  ]);
+  assert.deepEqual(await resolveLogFiles(['logs/**/*.log'], [root]), [
+    join(root, 'logs', 'a.log'),
+    join(root, 'logs', 'b.log'),
+    join(root, 'logs', 'nested', 'deeper', 'd.log'),
+    join(root, 'logs', 'nested', 'n.log'),
+  ]);
+  assert.deepEqual(await resolveLogFiles(['logs/[bc].*'], [root]), [
+    join(root, 'logs', 'b.log'),
+    join(root, 'logs', 'c.txt'),
+  ]);
+});
+
+test('paths and globs outside the roots are denied', async () => {
+  await assert.rejects(resolveLogFiles(['../outside/secret.log'], [root]), denied);
+  await assert.rejects(resolveLogFiles(['../outside/*.log'], [root]), denied);
+  await assert.rejects(resolveLogFiles([join(base, 'outside', '*.log')], [root]), denied);
+  await assert.rejects(resolveLogFiles(['logs/a.log'], []), denied);
+});
+
+test('symlinks out of the roots are denied, and skipped by globs', async () => {
+  await assert.rejects(resolveLogFiles(['logs/link.log'], [root]), denied);
+  await assert.rejects(resolveLogFiles(['logs/linked-dir/*.log'], [root]), denied);
+
+  const matched = await resolveLogFiles(['logs/**/*.log'], [root]);
+  assert.ok(!matched.some((file) => file.includes('secret')));
+});
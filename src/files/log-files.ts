@@ -0,0 +1,207 @@
+import { opendir, realpath, stat } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { delimiter, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { CompressionError } from '../errors.js';
+
+/**
+ * Directories allowed via MCP_ALLOWED_ROOTS (separated by the platform
+ * path delimiter, ':' on Unix). Combined with the client's MCP roots.
+ */
+const CONFIGURED_ROOTS = (process.env.MCP_ALLOWED_ROOTS ?? '')
+  .split(delimiter)
+  .map((root) => root.trim())
+  .filter((root) => root.length > 0);
+
+/** Maximum files a single call may read */
+const MAX_FILES = 1000;
+
+/** Maximum directory entries scanned while expanding a glob */
+const MAX_SCANNED_ENTRIES = 100_000;
+
+/**
+ * Resolve the directories reads are restricted to: file:// MCP roots from
+ * the client plus MCP_ALLOWED_ROOTS. Symlinks are resolved so a link
+ * inside a root can't point outside it.
+ */
+export async function resolveAllowedRoots(mcpRootUris: string[] = []): Promise<string[]> {
+  const candidates = [
+    ...mcpRootUris.filter((uri) => uri.startsWith('file://')).map((uri) => fileURLToPath(uri)),
+    ...CONFIGURED_ROOTS,
+  ];
+
+  const roots: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      roots.push(await realpath(resolve(candidate)));
+    } catch {
+      console.error(`[logpare-mcp] Ignoring allowed root that doesn't exist: ${candidate}`);
+    }
+  }
+
+  return Array.from(new Set(roots));
+}
+
+/**
+ * Check whether a real (symlink-resolved) path is inside one of the roots.
+ */
+function isWithinRoots(path: string, roots: string[]): boolean {
+  return roots.some((root) => {
+    const rel = relative(root, path);
+    return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+  });
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Convert a glob pattern to a regex over '/'-separated paths.
+ * Supports '**' (any depth), '*' and '?' within a segment, and [...] classes.
+ */
+function globToRegex(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' matches zero or more directories
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand one glob pattern (absolute) into matching file paths.
+ * The walk starts at the longest literal directory prefix and only goes as
+ * deep as the pattern has segments, unless a segment is '**'.
+ */
+async function expandGlob(pattern: string, roots: string[]): Promise<string[]> {
+  const segments = pattern.split(sep);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join(sep) || sep;
+
+  let realBase: string;
+  try {
+    realBase = await realpath(base);
+  } catch {
+    return [];
+  }
+  if (!isWithinRoots(realBase, roots)) {
+    throw new CompressionError('ACCESS_DENIED', `Path is outside the allowed roots: ${base}`);
+  }
+
+  const globSegments = segments.slice(firstGlob);
+  const regex = globToRegex(globSegments.join('/'));
+  const maxDepth = globSegments.some((segment) => segment.includes('**'))
+    ? Infinity
+    : globSegments.length;
+  const matches: string[] = [];
+  let scanned = 0;
+
+  // Walk one directory at a time so a huge tree fails at the cap instead
+  // of being listed in full. Symlinked directories aren't followed.
+  const pending = [{ dir: '', depth: 0 }];
+  for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+    const { dir, depth } = next;
+    for await (const entry of await opendir(join(realBase, dir))) {
+      if (++scanned > MAX_SCANNED_ENTRIES) {
+        throw new CompressionError(
+          'INPUT_TOO_LARGE',
+          `Glob ${pattern} scans more than ${MAX_SCANNED_ENTRIES.toLocaleString()} entries; narrow the pattern`
+        );
+      }
+
+      const path = dir ? `${dir}/${entry.name}` : entry.name;
+      if (regex.test(path)) matches.push(join(realBase, path));
+      // Entries deeper than the pattern can't match
+      if (entry.isDirectory() && depth + 1 < maxDepth) {
+        pending.push({ dir: path, depth: depth + 1 });
+      }
+    }
+  }
+
+  return matches.sort();
+}
+
+/**
+ * Resolve file paths and globs to readable files inside the allowed roots.
+ * Relative paths resolve against the first root.
+ */
+export async function resolveLogFiles(paths: string[], roots: string[]): Promise<string[]> {
+  if (roots.length === 0) {
+    throw new CompressionError(
+      'ACCESS_DENIED',
+      'No allowed roots: the client provided no MCP roots and MCP_ALLOWED_ROOTS is not set'
+    );
+  }
+
+  const files: string[] = [];
+
+  for (const path of paths) {
+    const absolute = resolve(roots[0], path);
+    const isGlob = GLOB_CHARS.test(path);
+    const candidates = isGlob ? await expandGlob(absolute, roots) : [absolute];
+
+    if (candidates.length === 0) {
+      throw new CompressionError('FILE_NOT_FOUND', `No files match: ${path}`);
+    }
+
+    for (const candidate of candidates) {
+      let real: string;
+      try {
+        real = await realpath(candidate);
+      } catch {
+        // Dangling symlinks in glob results are skipped
+        if (isGlob) continue;
+        throw new CompressionError('FILE_NOT_FOUND', `File not found: ${candidate}`);
+      }
+
+      // Glob matches that escape the roots via symlinks are skipped
+      if (!isWithinRoots(real, roots)) {
+        if (isGlob) continue;
+        throw new CompressionError(
+          'ACCESS_DENIED',
+          `Path is outside the allowed roots: ${candidate}`
+        );
+      }
+
+      // Globs may match directories; explicit paths must be files
+      if (!(await stat(real)).isFile()) {
+        if (!isGlob) {
+          throw new CompressionError('FILE_NOT_FOUND', `Not a file: ${candidate}`);
+        }
+        continue;
+      }
+
+      files.push(real);
+    }
+  }
+
+  const unique = Array.from(new Set(files));
+  if (unique.length === 0) {
+    throw new CompressionError('FILE_NOT_FOUND', 'No files matched the given paths');
+  }
+  if (unique.length > MAX_FILES) {
+    throw new CompressionError(
+      'INPUT_TOO_LARGE',
+      `Too many files (${unique.length}); the limit is ${MAX_FILES}`
+    );
+  }
+
+  return unique;
+}
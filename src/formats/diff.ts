@@ -0,0 +1,159 @@
+import type { DiffEntry, DiffResult } from '../pipeline/diff.js';
+import { categorizeTemplates } from './smart.js';
+import type { ClassificationRules } from '../pipeline/classification.js';
+import { DEFAULT_PROFILE, RULE_PROFILES, type RuleProfile } from '../pipeline/profiles.js';
+
+/** Entries listed per section before summarizing the rest */
+const MAX_ENTRIES_PER_SECTION = 10;
+
+/**
+ * Format a template that exists in only one run.
+ */
+function formatSingleRun(entry: DiffEntry, side: 'before' | 'after'): string {
+  return `   [${entry[side]!.occurrences.toLocaleString()}x] ${entry.pattern}`;
+}
+
+/**
+ * Format a template whose occurrences or severity changed between runs.
+ */
+function formatShift(entry: DiffEntry): string {
+  const before = entry.before!;
+  const after = entry.after!;
+  const parts = [
+    `   [${before.occurrences.toLocaleString()}x → ${after.occurrences.toLocaleString()}x]`,
+  ];
+
+  if (entry.changeRatio !== null && entry.changeRatio !== 1) {
+    const percent = Math.round((entry.changeRatio - 1) * 100);
+    parts.push(`(${percent > 0 ? '+' : ''}${percent}% per line)`);
+  }
+  if (entry.severityChanged) {
+    parts.push(`(${before.severity} → ${after.severity})`);
+  }
+  parts.push(entry.pattern);
+
+  return parts.join(' ');
+}
+
+/**
+ * Push a list of entries, truncated with a "... and N more" line.
+ */
+function pushEntries(
+  lines: string[],
+  entries: DiffEntry[],
+  format: (entry: DiffEntry) => string,
+  noun: string
+): void {
+  for (const entry of entries.slice(0, MAX_ENTRIES_PER_SECTION)) {
+    lines.push(format(entry));
+  }
+  if (entries.length > MAX_ENTRIES_PER_SECTION) {
+    lines.push(`   ... and ${entries.length - MAX_ENTRIES_PER_SECTION} more ${noun}`);
+  }
+}
+
+/**
+ * Push the severity-grouped sections for templates present in one run.
+ * Critical templates, errors, and warnings are listed; info and stack
+ * frames are summarized.
+ */
+function pushRunSections(
+  lines: string[],
+  title: 'APPEARED' | 'DISAPPEARED',
+  entries: DiffEntry[],
+  side: 'before' | 'after',
+  rules: ClassificationRules | undefined,
+  profile: RuleProfile
+): void {
+  const {
+    critical,
+    userImpactingErrors,
+    expectedFailures,
+    performanceViolations,
+    otherWarnings,
+    info,
+    stackFrames,
+  } = categorizeTemplates(entries, rules);
+  const format = (entry: DiffEntry) => formatSingleRun(entry, side);
+  const total = (list: DiffEntry[]) =>
+    list.reduce((sum, entry) => sum + entry[side]!.occurrences, 0).toLocaleString();
+
+  if (critical.length > 0) {
+    lines.push(`## ${title}: CRITICAL`);
+    pushEntries(lines, critical, format, 'critical patterns');
+    lines.push('');
+  }
+
+  if (userImpactingErrors.length > 0) {
+    lines.push(`## ${title}: ERRORS (User-Impacting)`);
+    pushEntries(lines, userImpactingErrors, format, 'errors');
+    lines.push('');
+  }
+
+  if (expectedFailures.length > 0) {
+    lines.push(`## ${title}: EXPECTED FAILURES (${RULE_PROFILES[profile].expectedFailures.label})`);
+    pushEntries(lines, expectedFailures, format, 'expected failures');
+    lines.push('');
+  }
+
+  const warnings = [...performanceViolations, ...otherWarnings];
+  if (warnings.length > 0) {
+    lines.push(`## ${title}: WARNINGS`);
+    pushEntries(lines, warnings, format, 'warnings');
+    lines.push('');
+  }
+
+  if (info.length > 0) {
+    lines.push(`## ${title}: INFO`);
+    lines.push(`   ${info.length} patterns, ${total(info)} total occurrences`);
+    lines.push('');
+  }
+
+  if (stackFrames.length > 0) {
+    lines.push(`## ${title}: STACK TRACES`);
+    lines.push(`   ${stackFrames.length} frame patterns, ${total(stackFrames)} total occurrences`);
+    lines.push('');
+  }
+}
+
+/**
+ * Smart-style text for a diff between two log runs, grouped by severity
+ * like formatSmart so new errors stand out from new noise.
+ */
+export function formatDiff(
+  diff: DiffResult,
+  rules?: ClassificationRules,
+  profile: RuleProfile = DEFAULT_PROFILE
+): string {
+  const lines: string[] = [];
+
+  lines.push('=== Log Run Diff ===');
+  lines.push(
+    `Before: ${diff.before.inputLines.toLocaleString()} lines → ${diff.before.templates} patterns (${diff.before.source})`
+  );
+  lines.push(
+    `After: ${diff.after.inputLines.toLocaleString()} lines → ${diff.after.templates} patterns (${diff.after.source})`
+  );
+  lines.push('');
+
+  if (diff.appeared.length === 0 && diff.disappeared.length === 0 && diff.shifted.length === 0) {
+    lines.push('No significant differences between the runs.');
+    lines.push('');
+  }
+
+  pushRunSections(lines, 'APPEARED', diff.appeared, 'after', rules, profile);
+  pushRunSections(lines, 'DISAPPEARED', diff.disappeared, 'before', rules, profile);
+
+  if (diff.shifted.length > 0) {
+    lines.push('## SHIFTED (Occurrence or Severity Change)');
+    pushEntries(lines, diff.shifted, formatShift, 'shifted patterns');
+    lines.push('');
+  }
+
+  lines.push('---');
+  lines.push(
+    `Shared patterns: ${diff.sharedTemplates} | Appeared: ${diff.appeared.length} | Disappeared: ${diff.disappeared.length} | Shifted: ${diff.shifted.length} | Unchanged: ${diff.unchanged}`
+  );
+
+  return lines.join('\n');
+}
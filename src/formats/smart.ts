@@ -1,49 +1,70 @@
 import type { Template, CompressionResult } from 'logpare';
+import type { BaselineComparison } from '../pipeline/baseline.js';
+import type { TemplateTimeline, Timelines } from '../pipeline/timestamps.js';
+import type { Anomaly } from '../pipeline/anomalies.js';
+import type { TemplateAttributes } from '../pipeline/ndjson.js';
+import type { InputFormatReport } from '../pipeline/log-formats.js';
+import type { MultilineStats, TemplateStack } from '../pipeline/multiline.js';
+import type { Issue } from '../pipeline/issues.js';
+import type { SourceMapStats } from '../pipeline/source-maps.js';
+import { DEFAULT_PROFILE, RULE_PROFILES, type ProfileReport } from '../pipeline/profiles.js';
+import {
+  extractFileReferences,
+  fileName,
+  isFileFrame,
+  parseStackFrame,
+} from '../pipeline/stack-frames.js';
+import {
+  DEFAULT_CLASSIFICATION_RULES,
+  type ClassificationRules,
+} from '../pipeline/classification.js';
 
 /**
- * Patterns and domains that indicate expected failures (ad blockers, analytics, etc.)
- * These are not actionable errors but expected behavior for some users.
+ * The critical pattern a template matched, if any.
  */
-const EXPECTED_FAILURE_PATTERNS = [
-  /ERR_BLOCKED_BY_CLIENT/i,
-  /net::ERR_/i,
-  /Failed to fetch/i,
-  /NetworkError/i,
-  /blocked by client/i,
-];
-
-const EXPECTED_FAILURE_DOMAINS = [
-  'monorail-edge.shopifysvc.com',
-  'api.amplitude.com',
-  'connect.facebook.net',
-  'kameleoon.io',
-  'cdn.attn.tv',
-  'ping.fastsimon.com',
-  'www.google-analytics.com',
-  'stats.g.doubleclick.net',
-  'www.googletagmanager.com',
-  'analytics',
-  'tracking',
-  'pixel',
-  'beacon',
-];
+function criticalRule(
+  t: Pick<Template, 'pattern'>,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): string | undefined {
+  return rules.criticalPatterns.find((p) => p.test(t.pattern))?.source;
+}
 
 /**
- * Check if a template represents an expected failure (ad blocker, blocked analytics, etc.)
+ * Check if a template is critical (a crash loop, OOM kill, deadlock), whatever its severity.
+ */
+function isCritical(
+  t: Pick<Template, 'pattern'>,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): boolean {
+  return criticalRule(t, rules) !== undefined;
+}
+
+/**
+ * The rule an expected failure matched: the source of a message pattern,
+ * or the domain or keyword found in one of its URLs. Undefined for other
+ * templates.
  */
-function isExpectedFailure(t: Template): boolean {
+function expectedFailureRule(
+  t: Pick<Template, 'pattern' | 'urlSamples' | 'fullUrlSamples'>,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): string | undefined {
   // Check pattern text
-  const patternMatch = EXPECTED_FAILURE_PATTERNS.some((p) => p.test(t.pattern));
-  if (patternMatch) return true;
+  const pattern = rules.expectedFailurePatterns.find((p) => p.test(t.pattern));
+  if (pattern) return pattern.source;
 
   // Check URLs
-  const allUrls = [...t.urlSamples, ...(t.fullUrlSamples || [])];
-  const domainMatch = allUrls.some((url) =>
-    EXPECTED_FAILURE_DOMAINS.some((d) => url.toLowerCase().includes(d.toLowerCase()))
-  );
-  if (domainMatch) return true;
+  const allUrls = [...t.urlSamples, ...(t.fullUrlSamples || [])].map((url) => url.toLowerCase());
+  return rules.expectedFailureDomains.find((d) => allUrls.some((url) => url.includes(d)));
+}
 
-  return false;
+/**
+ * Check if a template represents an expected failure (ad blocker, blocked analytics, etc.)
+ */
+function isExpectedFailure(
+  t: Pick<Template, 'pattern' | 'urlSamples' | 'fullUrlSamples'>,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): boolean {
+  return expectedFailureRule(t, rules) !== undefined;
 }
 
 /**
@@ -93,47 +114,50 @@ function extractNumericRange(
 /**
  * Check if a template is a performance violation.
  */
-function isPerformanceViolation(t: Template): boolean {
-  return (
-    /\[Violation\]/i.test(t.pattern) ||
-    /handler took/i.test(t.pattern) ||
-    /Forced reflow/i.test(t.pattern) ||
-    /Long task/i.test(t.pattern)
+function isPerformanceViolation(
+  t: Pick<Template, 'pattern'>,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): boolean {
+  return rules.performancePatterns.some((p) => p.test(t.pattern));
+}
+
+/**
+ * File names a frame template refers to: the parsed frame's file, or any
+ * source file mentioned in the pattern.
+ */
+function frameFiles(frame: Template): string[] {
+  const file = parseStackFrame(frame.pattern)?.file;
+  return (file ? [fileName(file)] : extractFileReferences(frame.pattern)).map((f) =>
+    f.toLowerCase()
   );
 }
 
 /**
  * Find stack frames that might be related to an error template.
  * Matches by file references or common patterns between error and stack frames.
+ * Frames of any supported language count, not just those logpare flags.
  */
 function findRelatedStackFrames(
   error: Template,
   allTemplates: Template[],
   maxFrames: number = 5
 ): Template[] {
-  const stackFrames = allTemplates.filter((t) => t.isStackFrame);
+  const stackFrames = allTemplates.filter((t) => t.isStackFrame || isFileFrame(t.pattern));
   if (stackFrames.length === 0) return [];
 
   // Extract file references from the error pattern
-  const filePattern = /([a-zA-Z0-9_-]+(?:[-.][\w]+)*\.(?:js|ts|jsx|tsx|mjs|cjs))/g;
-  const errorFiles = new Set<string>();
-  let match;
-  while ((match = filePattern.exec(error.pattern)) !== null) {
-    errorFiles.add(match[1].toLowerCase());
-  }
+  const errorFiles = new Set(extractFileReferences(error.pattern).map((f) => f.toLowerCase()));
 
   // Also check URLs from the error
   const errorUrls = [...error.urlSamples, ...(error.fullUrlSamples || [])];
 
   // Find stack frames that reference the same files or URLs
   const relatedFrames = stackFrames.filter((frame) => {
-    // Check if frame mentions any of the error's files
-    const framePattern = frame.pattern.toLowerCase();
-    for (const file of errorFiles) {
-      if (framePattern.includes(file)) return true;
-    }
+    // Check if frame is in any of the error's files
+    if (frameFiles(frame).some((file) => errorFiles.has(file))) return true;
 
     // Check if frame mentions any of the error's URLs
+    const framePattern = frame.pattern.toLowerCase();
     for (const url of errorUrls) {
       if (framePattern.includes(url.toLowerCase())) return true;
     }
@@ -152,100 +176,356 @@ function findRelatedStackFrames(
   return stackFrames.sort((a, b) => b.occurrences - a.occurrences).slice(0, maxFrames);
 }
 
+/**
+ * Minimal template fields needed to classify a template by severity.
+ */
+type ClassifiableTemplate = Pick<
+  Template,
+  'pattern' | 'severity' | 'isStackFrame' | 'urlSamples' | 'fullUrlSamples'
+>;
+
+/**
+ * Templates grouped into the smart format's severity sections.
+ */
+export interface TemplateCategories<T extends ClassifiableTemplate> {
+  critical: T[];
+  userImpactingErrors: T[];
+  expectedFailures: T[];
+  performanceViolations: T[];
+  otherWarnings: T[];
+  info: T[];
+  stackFrames: T[];
+}
+
+/**
+ * Group templates by severity, splitting errors into user-impacting and
+ * expected failures, and warnings into performance violations and others.
+ * Critical templates are taken out first, and performance rules also
+ * apply to info (GC pauses and slow queries are often logged as info).
+ */
+export function categorizeTemplates<T extends ClassifiableTemplate>(
+  templates: T[],
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): TemplateCategories<T> {
+  const messages = templates.filter((t) => !t.isStackFrame);
+  const critical = messages.filter((t) => isCritical(t, rules));
+  const others = messages.filter((t) => !isCritical(t, rules));
+  const allErrors = others.filter((t) => t.severity === 'error');
+  const warnings = others.filter((t) => t.severity === 'warning');
+  const info = others.filter((t) => t.severity === 'info');
+
+  return {
+    critical,
+    userImpactingErrors: allErrors.filter((t) => !isExpectedFailure(t, rules)),
+    expectedFailures: allErrors.filter((t) => isExpectedFailure(t, rules)),
+    performanceViolations: others.filter(
+      (t) => t.severity !== 'error' && isPerformanceViolation(t, rules)
+    ),
+    otherWarnings: warnings.filter((t) => !isPerformanceViolation(t, rules)),
+    info: info.filter((t) => !isPerformanceViolation(t, rules)),
+    stackFrames: templates.filter((t) => t.isStackFrame),
+  };
+}
+
+/**
+ * How much of each section formatSmart shows. Budget mode lowers these
+ * to fit a token budget; errors are never cut below the default.
+ */
+export interface SmartSectionLimits {
+  /** Errors listed */
+  errors: number;
+  /** Leading errors shown with their stack traces */
+  errorsWithStacks: number;
+  /** Stack frames shown per error */
+  stackFramesPerError: number;
+  /** Expected failures listed (the first is always shown) */
+  expectedFailures: number;
+  /** Performance violations listed */
+  performanceViolations: number;
+  /** Other warnings listed */
+  warnings: number;
+  /** New and abnormal templates listed against a baseline */
+  baselineChanges: number;
+  /** Rate anomalies listed */
+  anomalies: number;
+  /** Show SUCCESS SIGNALS and INFO sections */
+  info: boolean;
+  /** Show FILES, HTTP STATUS CODES, CORRELATION IDS, and DURATIONS sections */
+  summaries: boolean;
+  /** Show when each template happened (needs timelines) */
+  timelines: boolean;
+  /** Show top attribute values per template (NDJSON input) */
+  attributes: boolean;
+}
+
+export const DEFAULT_SECTION_LIMITS: SmartSectionLimits = {
+  errors: 10,
+  errorsWithStacks: 3,
+  stackFramesPerError: 5,
+  expectedFailures: 5,
+  performanceViolations: 10,
+  warnings: 10,
+  baselineChanges: 10,
+  anomalies: 10,
+  info: true,
+  summaries: true,
+  timelines: true,
+  attributes: true,
+};
+
+/**
+ * Optional extra context for formatSmart.
+ */
+export interface SmartFormatOptions {
+  /** Comparison against a saved baseline; adds a NEW SINCE BASELINE section */
+  baseline?: BaselineComparison;
+  /** Per-template timestamps; adds a time range and when each error happened */
+  timelines?: Timelines;
+  /** Detected rate anomalies; adds an ANOMALIES section */
+  anomalies?: Anomaly[];
+  /** Per-template record attributes; adds their top values under each template */
+  attributes?: Record<string, TemplateAttributes>;
+  /** How the input was read; adds an Input line for structured formats */
+  inputFormat?: InputFormatReport;
+  /**
+   * Stacks grouped with each template's records. When set, errors show
+   * their own stack instead of frame templates matched by file name.
+   */
+  stacks?: Record<string, TemplateStack>;
+  /** Continuation lines grouped into records; adds a Grouped line */
+  multiline?: MultilineStats;
+  /**
+   * Error templates grouped into issues. Errors are listed once per issue,
+   * under its most frequent template, with the other members below it.
+   */
+  issues?: Issue[];
+  /** Source maps used to resolve minified frames; adds a Source maps line */
+  sourceMaps?: SourceMapStats;
+  /** Classification rules (default: DEFAULT_CLASSIFICATION_RULES) */
+  classification?: ClassificationRules;
+  /**
+   * Rule profile used and suggested; adds a Profile line when not the
+   * default, and labels the expected failures section
+   */
+  profile?: ProfileReport;
+  /** Section limits (defaults: DEFAULT_SECTION_LIMITS) */
+  limits?: Partial<SmartSectionLimits>;
+}
+
 /**
  * LLM-optimized smart formatter that groups templates by severity
  * and provides actionable insights with enhanced diagnostic context.
  */
 export function formatSmart(
   templates: Template[],
-  stats: CompressionResult['stats']
+  stats: CompressionResult['stats'],
+  options: SmartFormatOptions = {}
 ): string {
   const lines: string[] = [];
+  const limits = { ...DEFAULT_SECTION_LIMITS, ...options.limits };
+  const rules = options.classification ?? DEFAULT_CLASSIFICATION_RULES;
 
   // Header
   lines.push('=== Log Analysis ===');
   lines.push(
     `Source: ${stats.inputLines.toLocaleString()} lines → ${stats.uniqueTemplates} unique patterns`
   );
+  const inputLine = options.inputFormat && formatInputFormat(options.inputFormat);
+  if (inputLine) {
+    lines.push(inputLine);
+  }
+  if (options.multiline?.continuationLines) {
+    lines.push(
+      `Grouped: ${options.multiline.continuationLines.toLocaleString()} stack trace lines into ${options.multiline.groupedRecords.toLocaleString()} records`
+    );
+  }
+  if (options.sourceMaps) {
+    lines.push(
+      `Source maps: resolved ${options.sourceMaps.resolvedFrames.toLocaleString()} frames with ${options.sourceMaps.maps} maps`
+    );
+  }
+  const profileLine = options.profile && formatProfile(options.profile);
+  if (profileLine) {
+    lines.push(profileLine);
+  }
+  const timelines = options.timelines;
+  if (timelines?.range) {
+    lines.push(
+      `Time range: ${formatTime(timelines.range.start, true)} → ${formatTime(timelines.range.end, true)} UTC`
+    );
+  }
   lines.push('');
 
+  // Add when a template happened and its attributes, when known
+  const withDetails = (t: Template): string => {
+    const parts = [formatTemplateEnhanced(t)];
+    const timeline = limits.timelines ? timelines?.templates[t.id] : undefined;
+    if (timeline) {
+      parts.push(formatTimeline(timeline, timelines!.bucketMs));
+    }
+    const attributes = limits.attributes ? options.attributes?.[t.id] : undefined;
+    if (attributes) {
+      const formatted = formatAttributes(attributes, t.occurrences);
+      if (formatted) parts.push(formatted);
+    }
+    return parts.join('\n');
+  };
+
+  // A template's own stack when records were grouped, else frames guessed by file name
+  const stackLines = (t: Template, maxFrames: number): string[] => {
+    if (!options.stacks) {
+      const relatedFrames = findRelatedStackFrames(t, templates, maxFrames);
+      return relatedFrames.length > 0
+        ? ['        Stack (first occurrence):', ...relatedFrames.map((f) => `          ${f.pattern}`)]
+        : [];
+    }
+
+    // An error without a stack of its own shows its issue's
+    const stack = options.stacks[t.id] ?? issueMembers.get(t.id)?.issue.stack;
+    if (!stack) return [];
+    const header =
+      stack.distinct > 1 ? `        Stack (most common of ${stack.distinct}):` : '        Stack:';
+    const more = stack.frames.length - maxFrames;
+    return [
+      header,
+      ...stack.frames.slice(0, maxFrames).map((frame) => `          ${frame}`),
+      ...(more > 0 ? [`          ... ${more} more`] : []),
+    ];
+  };
+
   // Categorize templates
-  const allErrors = templates.filter((t) => t.severity === 'error' && !t.isStackFrame);
-  const userImpactingErrors = allErrors.filter((t) => !isExpectedFailure(t));
-  const expectedFailures = allErrors.filter((t) => isExpectedFailure(t));
+  const {
+    critical,
+    userImpactingErrors,
+    expectedFailures,
+    performanceViolations,
+    otherWarnings,
+    info,
+    stackFrames,
+  } = categorizeTemplates(templates, rules);
+
+  // New since baseline section - novel problems above chronic noise
+  if (options.baseline) {
+    lines.push(...formatBaselineSection(templates, options.baseline, limits.baselineChanges));
+    lines.push('');
+  }
 
-  const warnings = templates.filter((t) => t.severity === 'warning' && !t.isStackFrame);
-  const performanceViolations = warnings.filter((t) => isPerformanceViolation(t));
-  const otherWarnings = warnings.filter((t) => !isPerformanceViolation(t));
+  // Anomalies section - incidents show up as rate changes
+  if (options.anomalies) {
+    lines.push(...formatAnomaliesSection(options.anomalies, timelines, limits.anomalies));
+    lines.push('');
+  }
 
-  const info = templates.filter((t) => t.severity === 'info' && !t.isStackFrame);
-  const stackFrames = templates.filter((t) => t.isStackFrame);
+  // Other listed errors of the same issue, keyed by the issue's lead template
+  const { listedErrors, issueMembers } = groupErrorsByIssue(userImpactingErrors, options.issues);
+  const issueLines = (t: Template): string[] => {
+    const members = issueMembers.get(t.id);
+    if (!members) return [];
+    const issue = members.issue;
+    const total = [t, ...members.templates].reduce((sum, m) => sum + m.occurrences, 0);
+    const type = issue.exceptionType ? `${issue.exceptionType}, ` : '';
+    return [
+      `        Issue ${issue.id} (${type}${members.templates.length + 1} patterns, ${total.toLocaleString()} total):`,
+      ...members.templates
+        .slice(0, 3)
+        .map((m) => `          [${m.occurrences}x] ${truncate(m.pattern, 100)}`),
+      ...(members.templates.length > 3
+        ? [`          ... and ${members.templates.length - 3} more patterns`]
+        : []),
+    ];
+  };
+
+  // Critical section - problems the rule profile marks critical, whatever their severity
+  if (critical.length > 0) {
+    const totalCriticalOccurrences = critical.reduce((sum, t) => sum + t.occurrences, 0);
+    lines.push('## CRITICAL');
+    lines.push(
+      `   [${totalCriticalOccurrences.toLocaleString()} total across ${critical.length} patterns]`
+    );
+    for (const t of critical.slice(0, limits.errorsWithStacks)) {
+      lines.push(withDetails(t));
+      lines.push(`        Rule: ${criticalRule(t, rules)}`);
+      lines.push(...stackLines(t, limits.stackFramesPerError));
+    }
+    for (const t of critical.slice(limits.errorsWithStacks, limits.errors)) {
+      lines.push(withDetails(t));
+      lines.push(`        Rule: ${criticalRule(t, rules)}`);
+    }
+    if (critical.length > limits.errors) {
+      lines.push(`   ... and ${critical.length - limits.errors} more critical patterns`);
+    }
+    lines.push('');
+  }
 
   // User-Impacting Errors section
   lines.push('## ERRORS (User-Impacting)');
-  if (userImpactingErrors.length > 0) {
-    // Show top 3 errors with stack traces
-    for (const t of userImpactingErrors.slice(0, 3)) {
-      lines.push(formatTemplateEnhanced(t));
+  if (listedErrors.length > 0) {
+    // Show top errors with stack traces
+    for (const t of listedErrors.slice(0, limits.errorsWithStacks)) {
+      lines.push(withDetails(t));
+      lines.push(...issueLines(t));
       // Add stack traces for the first few errors
-      const relatedFrames = findRelatedStackFrames(t, templates, 5);
-      if (relatedFrames.length > 0) {
-        lines.push('        Stack (first occurrence):');
-        for (const frame of relatedFrames) {
-          lines.push(`          ${frame.pattern}`);
-        }
-      }
+      lines.push(...stackLines(t, limits.stackFramesPerError));
     }
     // Show remaining errors without stack traces
-    for (const t of userImpactingErrors.slice(3, 10)) {
-      lines.push(formatTemplateEnhanced(t));
+    for (const t of listedErrors.slice(limits.errorsWithStacks, limits.errors)) {
+      lines.push(withDetails(t));
+      lines.push(...issueLines(t));
     }
-    if (userImpactingErrors.length > 10) {
-      lines.push(`   ... and ${userImpactingErrors.length - 10} more errors`);
+    if (listedErrors.length > limits.errors) {
+      lines.push(`   ... and ${listedErrors.length - limits.errors} more errors`);
     }
   } else {
     lines.push('   None detected');
   }
   lines.push('');
 
-  // Expected Failures section (ad blockers, analytics blocks, etc.)
+  // Expected Failures section (ad blockers, client disconnects, etc.)
   if (expectedFailures.length > 0) {
     const totalExpectedOccurrences = expectedFailures.reduce((sum, t) => sum + t.occurrences, 0);
-    lines.push('## EXPECTED FAILURES (Ad Blocker / Network)');
+    const { label, action } =
+      RULE_PROFILES[options.profile?.profile ?? DEFAULT_PROFILE].expectedFailures;
+    lines.push(`## EXPECTED FAILURES (${label})`);
     lines.push(
       `   [${totalExpectedOccurrences} total across ${expectedFailures.length} patterns]`
     );
+    // Name the rules so a misclassified error can be traced to its rule
+    const matchedRules = new Map<string, number>();
+    for (const t of expectedFailures) {
+      const rule = expectedFailureRule(t, rules)!;
+      matchedRules.set(rule, (matchedRules.get(rule) ?? 0) + t.occurrences);
+    }
+    const ruleCounts = Array.from(matchedRules, ([rule, count]) => `${rule} (${count})`);
+    lines.push(`   Matched rules: ${ruleCounts.join(', ')}`);
     lines.push('');
     // Show first expected failure with stack trace
     const firstExpected = expectedFailures[0];
-    lines.push(formatTemplateEnhanced(firstExpected));
-    const expectedFrames = findRelatedStackFrames(firstExpected, templates, 3);
-    if (expectedFrames.length > 0) {
-      lines.push('        Stack (first occurrence):');
-      for (const frame of expectedFrames) {
-        lines.push(`          ${frame.pattern}`);
-      }
-    }
+    lines.push(withDetails(firstExpected));
+    lines.push(...stackLines(firstExpected, Math.min(3, limits.stackFramesPerError)));
     // Show remaining without stack traces
-    for (const t of expectedFailures.slice(1, 5)) {
-      lines.push(formatTemplateEnhanced(t));
+    for (const t of expectedFailures.slice(1, limits.expectedFailures)) {
+      lines.push(withDetails(t));
     }
-    if (expectedFailures.length > 5) {
-      lines.push(`   ... and ${expectedFailures.length - 5} more expected failures`);
+    if (expectedFailures.length > limits.expectedFailures) {
+      lines.push(
+        `   ... and ${expectedFailures.length - limits.expectedFailures} more expected failures`
+      );
     }
     lines.push('');
-    lines.push('   Action: Expected behavior for users with ad blockers. No fix needed.');
+    lines.push(`   Action: ${action}`);
     lines.push('');
   }
 
   // Performance Violations section
   if (performanceViolations.length > 0) {
     lines.push('## PERFORMANCE VIOLATIONS');
-    for (const t of performanceViolations.slice(0, 10)) {
+    for (const t of performanceViolations.slice(0, limits.performanceViolations)) {
       lines.push(formatPerformanceTemplate(t));
     }
-    if (performanceViolations.length > 10) {
-      lines.push(`   ... and ${performanceViolations.length - 10} more violations`);
+    if (performanceViolations.length > limits.performanceViolations) {
+      lines.push(
+        `   ... and ${performanceViolations.length - limits.performanceViolations} more violations`
+      );
     }
     lines.push('');
   }
@@ -253,29 +533,21 @@ export function formatSmart(
   // Other Warnings section
   if (otherWarnings.length > 0) {
     lines.push('## WARNINGS (Review)');
-    for (const t of otherWarnings.slice(0, 10)) {
-      lines.push(formatTemplateEnhanced(t));
+    for (const t of otherWarnings.slice(0, limits.warnings)) {
+      lines.push(withDetails(t));
     }
-    if (otherWarnings.length > 10) {
-      lines.push(`   ... and ${otherWarnings.length - 10} more warnings`);
+    if (otherWarnings.length > limits.warnings) {
+      lines.push(`   ... and ${otherWarnings.length - limits.warnings} more warnings`);
     }
     lines.push('');
   }
 
   // Success signals section - surface key success events from INFO
-  const successPatterns = [
-    /\b200\b/,
-    /\bOK\b/,
-    /\bsuccess/i,
-    /\bcomplete[d]?\b/i,
-    /\bloaded\b/i,
-    /\bconnected\b/i,
-    /\bready\b/i,
-  ];
+  const { successPatterns } = rules;
   const successEvents = info.filter((t) =>
     successPatterns.some((p) => p.test(t.pattern))
   );
-  if (successEvents.length > 0) {
+  if (limits.info && successEvents.length > 0) {
     const totalSuccessOccurrences = successEvents.reduce((sum, t) => sum + t.occurrences, 0);
     lines.push('## SUCCESS SIGNALS');
     lines.push(
@@ -292,7 +564,7 @@ export function formatSmart(
 
   // Info section (summarized) - excludes success signals already shown
   const remainingInfo = info.filter((t) => !successPatterns.some((p) => p.test(t.pattern)));
-  if (remainingInfo.length > 0) {
+  if (limits.info && remainingInfo.length > 0) {
     const totalInfoOccurrences = remainingInfo.reduce((sum, t) => sum + t.occurrences, 0);
     lines.push('## INFO (Noise)');
     lines.push(
@@ -312,7 +584,7 @@ export function formatSmart(
   }
 
   // Files by activity
-  const fileActivity = extractFileActivity(templates);
+  const fileActivity = limits.summaries ? extractFileActivity(templates, options.stacks) : [];
   if (fileActivity.length > 0) {
     lines.push('## FILES BY ACTIVITY');
     for (const [file, count] of fileActivity.slice(0, 5)) {
@@ -328,7 +600,7 @@ export function formatSmart(
       allStatusCodes.set(code, (allStatusCodes.get(code) || 0) + t.occurrences);
     });
   });
-  if (allStatusCodes.size > 0) {
+  if (limits.summaries && allStatusCodes.size > 0) {
     lines.push('## HTTP STATUS CODES');
     const sortedCodes = Array.from(allStatusCodes.entries()).sort((a, b) => b[1] - a[1]);
     for (const [code, count] of sortedCodes.slice(0, 5)) {
@@ -343,7 +615,7 @@ export function formatSmart(
   templates.forEach((t) => {
     (t.correlationIdSamples || []).forEach((id) => allCorrelationIds.add(id));
   });
-  if (allCorrelationIds.size > 0) {
+  if (limits.summaries && allCorrelationIds.size > 0) {
     lines.push('## CORRELATION IDS');
     const idList = Array.from(allCorrelationIds).slice(0, 5);
     lines.push(`   ${idList.join(', ')}`);
@@ -358,7 +630,7 @@ export function formatSmart(
   templates.forEach((t) => {
     (t.durationSamples || []).forEach((d) => allDurations.add(d));
   });
-  if (allDurations.size > 0) {
+  if (limits.summaries && allDurations.size > 0) {
     lines.push('## DURATIONS');
     const durationList = Array.from(allDurations).slice(0, 10);
     lines.push(`   ${durationList.join(', ')}`);
@@ -377,6 +649,189 @@ export function formatSmart(
   return lines.join('\n');
 }
 
+/**
+ * Format the NEW SINCE BASELINE section: templates not in the baseline and
+ * templates whose rate changed abnormally, most severe first.
+ */
+function formatBaselineSection(
+  templates: Template[],
+  baseline: BaselineComparison,
+  limit: number
+): string[] {
+  const lines: string[] = [`## NEW SINCE BASELINE (${baseline.name})`];
+  const severityRank: Record<string, number> = { error: 0, warning: 1, info: 2 };
+
+  const flagged = templates
+    .filter((t) => !t.isStackFrame && (baseline.statuses[t.id]?.status ?? 'known') !== 'known')
+    .sort(
+      (a, b) =>
+        (severityRank[a.severity] ?? 3) - (severityRank[b.severity] ?? 3) ||
+        // New before abnormal within a severity
+        Number(baseline.statuses[a.id].status === 'abnormal') -
+          Number(baseline.statuses[b.id].status === 'abnormal') ||
+        b.occurrences - a.occurrences
+    );
+
+  if (flagged.length === 0) {
+    lines.push('   None detected - all patterns match the baseline');
+    return lines;
+  }
+
+  for (const t of flagged.slice(0, limit)) {
+    const { status, baselineOccurrences, changeRatio } = baseline.statuses[t.id];
+    const label = t.severity.toUpperCase();
+    if (status === 'new') {
+      lines.push(`   [${t.occurrences}x] NEW ${label}: ${t.pattern}`);
+    } else {
+      const change = changeRatio !== null ? `, ${changeRatio.toFixed(1)}x baseline rate` : '';
+      lines.push(
+        `   [${t.occurrences}x] ABNORMAL ${label} (baseline: ${baselineOccurrences}x${change}): ${t.pattern}`
+      );
+    }
+  }
+  if (flagged.length > limit) {
+    lines.push(`   ... and ${flagged.length - limit} more`);
+  }
+  lines.push(
+    `   [${baseline.counts.new} new, ${baseline.counts.abnormal} abnormal, ${baseline.counts.known} known patterns]`
+  );
+
+  return lines;
+}
+
+/**
+ * Listed errors after grouping by issue: each issue's most frequent error
+ * stays in place and stands for the others.
+ */
+function groupErrorsByIssue(
+  errors: Template[],
+  issues: Issue[] | undefined
+): {
+  listedErrors: Template[];
+  issueMembers: Map<string, { issue: Issue; templates: Template[] }>;
+} {
+  const issueMembers = new Map<string, { issue: Issue; templates: Template[] }>();
+  if (!issues) return { listedErrors: errors, issueMembers };
+
+  const byId = new Map(errors.map((t) => [t.id, t]));
+  const hidden = new Set<string>();
+  for (const issue of issues) {
+    const members = issue.templates.flatMap((id) => byId.get(id) ?? []);
+    if (members.length < 2) continue;
+
+    const [lead, ...others] = members.sort((a, b) => b.occurrences - a.occurrences);
+    issueMembers.set(lead.id, { issue, templates: others });
+    for (const t of others) hidden.add(t.id);
+  }
+
+  return { listedErrors: errors.filter((t) => !hidden.has(t.id)), issueMembers };
+}
+
+/**
+ * Format the ANOMALIES section: spikes, onsets, and cessations,
+ * most severe first.
+ */
+function formatAnomaliesSection(
+  anomalies: Anomaly[],
+  timelines: Timelines | undefined,
+  limit: number
+): string[] {
+  const lines: string[] = ['## ANOMALIES'];
+
+  if (!timelines?.range) {
+    lines.push('   Not available - no timestamps found in the logs');
+    return lines;
+  }
+  if (anomalies.length === 0) {
+    lines.push('   None detected - pattern rates were steady');
+    return lines;
+  }
+
+  const multiDay = timelines.range.start.slice(0, 10) !== timelines.range.end.slice(0, 10);
+  const time = (iso: string) => formatTime(iso, multiDay);
+
+  for (const a of anomalies.slice(0, limit)) {
+    const label = a.severity.toUpperCase();
+    if (a.kind === 'spike') {
+      lines.push(
+        `   [${a.occurrences}x] SPIKE ${label} ${time(a.start)}-${time(a.end)} (expected ~${Math.round(a.expected)}): ${a.pattern}`
+      );
+    } else if (a.kind === 'onset') {
+      lines.push(`   [${a.occurrences}x] STARTED ${label} at ${time(a.start)}: ${a.pattern}`);
+    } else {
+      lines.push(
+        `   STOPPED ${label} after ${time(a.start)} (~${a.expected} more expected by ${time(a.end)}): ${a.pattern}`
+      );
+    }
+  }
+  if (anomalies.length > limit) {
+    lines.push(`   ... and ${anomalies.length - limit} more`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format an ISO timestamp for display: time of day, or date and time.
+ */
+function formatTime(iso: string, withDate = false): string {
+  return withDate ? iso.slice(0, 19).replace('T', ' ') : iso.slice(11, 19);
+}
+
+/**
+ * Format a bucket size in milliseconds as a short duration (e.g. "5m").
+ */
+function formatBucket(ms: number): string {
+  const units: Array<[number, string]> = [
+    [86_400_000, 'd'],
+    [3_600_000, 'h'],
+    [60_000, 'm'],
+    [1000, 's'],
+  ];
+  for (const [size, unit] of units) {
+    if (ms % size === 0) return `${ms / size}${unit}`;
+  }
+  return `${ms}ms`;
+}
+
+/**
+ * Format when a template happened: first seen, peak bucket, last seen.
+ */
+function formatTimeline(timeline: TemplateTimeline, bucketMs: number): string {
+  const multiDay = timeline.firstTimestamp.slice(0, 10) !== timeline.lastTimestamp.slice(0, 10);
+  const first = formatTime(timeline.firstTimestamp, multiDay);
+  const last = formatTime(timeline.lastTimestamp, multiDay);
+  const peak = formatTime(timeline.peak.start, multiDay);
+
+  if (timeline.histogram.length === 1) {
+    return `        Time: ${first} - ${last}`;
+  }
+  return `        Time: started ${first}, peaked ${peak} (${timeline.peak.count} in ${formatBucket(bucketMs)}), last ${last}`;
+}
+
+/**
+ * Format the most telling NDJSON attributes of a template: fields with few
+ * distinct values (service, route) rather than per-request IDs.
+ */
+function formatAttributes(attributes: TemplateAttributes, occurrences: number): string | null {
+  const fields = Object.entries(attributes)
+    // A field unique on every record (request IDs) says nothing about the pattern
+    .filter(([, summary]) => summary.distinct < occurrences || occurrences === 1)
+    .sort((a, b) => a[1].distinct - b[1].distinct)
+    .slice(0, 3);
+  if (fields.length === 0) return null;
+
+  const formatted = fields.map(([field, summary]) => {
+    const values = summary.top
+      .slice(0, 3)
+      .map(({ value, count }) => `${truncate(value, 40)} (${count})`)
+      .join(', ');
+    const more = summary.distinct > 3 ? `, +${summary.distinct - 3} more` : '';
+    return `${field}=${values}${more}`;
+  });
+  return `        Attributes: ${formatted.join('; ')}`;
+}
+
 /**
  * Format a template with enhanced diagnostic information.
  */
@@ -497,17 +952,26 @@ function formatPerformanceTemplate(t: Template): string {
 }
 
 /**
- * Extract file activity from patterns (files mentioned in templates).
+ * Extract file activity from patterns (files mentioned in templates) and
+ * from the frames of grouped stack traces (each file once per stack).
  */
-function extractFileActivity(templates: Template[]): [string, number][] {
-  const filePattern = /([a-zA-Z0-9_-]+\.(?:js|ts|jsx|tsx|mjs|cjs))(?::\d+)?/g;
+function extractFileActivity(
+  templates: Template[],
+  stacks?: Record<string, TemplateStack>
+): [string, number][] {
   const fileCounts = new Map<string, number>();
+  const addFiles = (files: Iterable<string>, count: number) => {
+    for (const file of files) {
+      fileCounts.set(file, (fileCounts.get(file) || 0) + count);
+    }
+  };
 
   for (const t of templates) {
-    const matches = t.pattern.matchAll(filePattern);
-    for (const match of matches) {
-      const file = match[1];
-      fileCounts.set(file, (fileCounts.get(file) || 0) + t.occurrences);
+    addFiles(extractFileReferences(t.pattern), t.occurrences);
+
+    const stack = stacks?.[t.id];
+    if (stack) {
+      addFiles(new Set(stack.frames.flatMap(extractFileReferences)), stack.occurrences);
     }
   }
 
@@ -548,7 +1012,43 @@ function getStatusCodeLabel(code: number): string {
   return labels[code] || '';
 }
 
+/**
+ * Format the input format line (structured formats only).
+ */
+function formatInputFormat(report: InputFormatReport): string | undefined {
+  if (report.format === 'text') return undefined;
+
+  const parts = [`Input: ${report.format}${report.detected ? ' (auto-detected)' : ''}`];
+  if (report.parsedLines !== undefined) {
+    const unparsed = report.unparsedLines
+      ? `, ${report.unparsedLines.toLocaleString()} unparsed lines`
+      : '';
+    parts.push(`${report.parsedLines.toLocaleString()} records${unparsed}`);
+  }
+  return parts.join(' | ');
+}
+
+/**
+ * Format the rule profile line, or undefined for the default profile when
+ * no other profile is suggested.
+ */
+function formatProfile(report: ProfileReport): string | undefined {
+  if (report.suggested) {
+    return `Profile: ${report.profile} (input looks like ${report.suggested}; set profile: "${report.suggested}" or "auto")`;
+  }
+  if (report.profile === DEFAULT_PROFILE && !report.auto) return undefined;
+  return `Profile: ${report.profile}${report.auto ? ' (auto)' : ''}`;
+}
+
 /**
  * Export helper functions for use in compress.ts
  */
-export { isExpectedFailure, hydratePattern, extractNumericRange, isPerformanceViolation };
+export {
+  isCritical,
+  isExpectedFailure,
+  hydratePattern,
+  extractNumericRange,
+  isPerformanceViolation,
+  formatAttributes,
+  formatInputFormat,
+};
@@ -1,6 +1,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import {
+  ListRootsResultSchema,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
@@ -10,10 +17,19 @@ process.on('unhandledRejection', (reason, promise) => {
 
 import {
   compressLogsSchema,
+  compressLogsOutputSchema,
   compressLogsDescription,
   handleCompressLogs,
+  startProtocolTask,
   type CompressLogsArgs,
 } from './tools/compress.js';
+import {
+  compressLogFileSchema,
+  compressLogFileOutputSchema,
+  compressLogFileDescription,
+  handleCompressLogFile,
+  type CompressLogFileArgs,
+} from './tools/compress-file.js';
 import {
   analyzeLogPatternsSchema,
   analyzeLogPatternsDescription,
@@ -26,11 +42,42 @@ import {
   handleEstimateCompression,
   type EstimateCompressionArgs,
 } from './tools/estimate.js';
+import {
+  diffLogRunsSchema,
+  diffLogRunsOutputSchema,
+  diffLogRunsDescription,
+  handleDiffLogRuns,
+  type DiffLogRunsArgs,
+} from './tools/diff.js';
+import {
+  saveBaselineDescription,
+  handleSaveBaseline,
+  deleteBaselineDescription,
+  handleDeleteBaseline,
+  type SaveBaselineArgs,
+  type DeleteBaselineArgs,
+} from './tools/baselines.js';
+import {
+  getTaskStatusSchema,
+  getTaskStatusDescription,
+  handleGetTaskStatus,
+  cancelTaskSchema,
+  cancelTaskDescription,
+  handleCancelTask,
+  taskStatusOutputSchema,
+  type GetTaskStatusArgs,
+  type CancelTaskArgs,
+} from './tools/tasks.js';
 import { taskStore } from './stores/task-store.js';
+import { mcpTaskStore } from './stores/mcp-task-store.js';
+import { compressionPool } from './workers/pool.js';
 import { createHttpTransport, type HttpSessionManager } from './transports/http.js';
 import { registerResources } from './resources/index.js';
 import { registerPrompts } from './prompts/index.js';
 import { noopAuthMiddleware } from './middleware/auth.js';
+import { createProgressNotifier } from './notifications/progress.js';
+import { TOKENIZER_NAMES } from './pipeline/tokenizer.js';
+import { INPUT_FORMATS } from './pipeline/log-formats.js';
 
 // HTTP session manager (set when using HTTP transport)
 let httpSessionManager: HttpSessionManager | null = null;
@@ -52,50 +99,125 @@ const server = new McpServer(
       tools: { listChanged: false },
       resources: { listChanged: false },
       prompts: { listChanged: false },
+      // MCP tasks protocol (tasks/get, tasks/result, tasks/cancel, tasks/list)
+      tasks: {
+        list: {},
+        cancel: {},
+        requests: { tools: { call: {} } },
+      },
     },
+    // Back the tasks protocol with our TaskStore
+    taskStore: mcpTaskStore,
   }
 );
 
+/**
+ * List the client's roots, when it exposes them. Reads from disk (log
+ * files, source maps) are restricted to these and MCP_ALLOWED_ROOTS.
+ */
+async function listClientRoots(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<string[]> {
+  if (!server.server.getClientCapabilities()?.roots) return [];
+  try {
+    const { roots } = await extra.sendRequest({ method: 'roots/list' }, ListRootsResultSchema);
+    return roots.map((root) => root.uri);
+  } catch (error) {
+    console.error('[logpare-mcp] Failed to list client roots:', error);
+    return [];
+  }
+}
+
 // Register compress_logs tool
-server.tool(
+// Task-capable: spec-aware clients can run it as an MCP task; other clients
+// get the legacy behavior (inline result, or taskId + polling via use_task)
+server.experimental.tasks.registerToolTask(
   'compress_logs',
-  compressLogsDescription,
   {
-    logs: z.string().describe('Raw log content as a multi-line string'),
-    format: z
-      .enum(['smart', 'summary', 'detailed', 'json'])
-      .optional()
-      .describe("Output format: 'smart' (default, LLM-optimized with severity grouping), 'summary', 'detailed', or 'json'"),
-    max_templates: z
-      .number()
-      .int()
-      .min(1)
-      .max(500)
-      .optional()
-      .describe('Maximum templates to include (default: 50)'),
-    depth: z
-      .number()
-      .int()
-      .min(2)
-      .max(6)
-      .optional()
-      .describe('Drain tree depth (default: 4)'),
-    threshold: z
-      .number()
-      .min(0)
-      .max(1)
-      .optional()
-      .describe('Similarity threshold 0-1 (default: 0.4)'),
-    use_task: z
-      .boolean()
-      .optional()
-      .describe('Force async task-based processing'),
+    description: compressLogsDescription,
+    execution: { taskSupport: 'optional' },
+    inputSchema: compressLogsSchema.shape,
+    outputSchema: compressLogsOutputSchema,
   },
-  async (args) => {
+  {
+    createTask: async (args, extra) => {
+      // Stream notifications/progress when the client asked for them
+      const progressToken = extra._meta?.progressToken;
+      const onProgress =
+        progressToken !== undefined
+          ? createProgressNotifier(progressToken, extra.sendNotification)
+          : undefined;
+
+      // Source maps are read from disk, so only within the client's roots
+      const rootUris =
+        args.source_maps_dir !== undefined || args.source_map_files !== undefined
+          ? await listClientRoots(extra)
+          : undefined;
+
+      const task = await extra.taskStore.createTask({
+        ttl: extra.taskRequestedTtl,
+        pollInterval: 1000,
+      });
+
+      // Not task-augmented: run the legacy handler and return its result
+      // through an already-completed wrapper task
+      if (mcpTaskStore.isLegacyTask(task.taskId)) {
+        let completed = false;
+        try {
+          // Args validated by Zod schema; cast is safe
+          const result = await handleCompressLogs(args as CompressLogsArgs, {
+            onProgress,
+            rootUris,
+            sessionId: extra.sessionId,
+          });
+          const legacyTask = mcpTaskStore.completeLegacyTask(task.taskId, {
+            content: result.content,
+            structuredContent: result.structuredContent,
+            isError: result.isError,
+          });
+          completed = true;
+          return { task: legacyTask };
+        } finally {
+          // The SDK only reads results of completed wrapper tasks
+          if (!completed) mcpTaskStore.discardLegacyTask(task.taskId);
+        }
+      }
+
+      // Args validated by Zod schema; cast is safe
+      await startProtocolTask(task.taskId, args as CompressLogsArgs, { onProgress, rootUris });
+      return { task: await extra.taskStore.getTask(task.taskId) };
+    },
+    getTask: async (_args, extra) => extra.taskStore.getTask(extra.taskId),
+    getTaskResult: async (_args, extra) =>
+      (await extra.taskStore.getTaskResult(extra.taskId)) as CallToolResult,
+  }
+);
+
+// Register compress_log_file tool
+// registerTool rather than tool() to declare the output schema
+server.registerTool(
+  'compress_log_file',
+  {
+    description: compressLogFileDescription,
+    inputSchema: compressLogFileSchema.shape,
+    outputSchema: compressLogFileOutputSchema,
+  },
+  async (args, extra) => {
+    const progressToken = extra._meta?.progressToken;
+    const onProgress =
+      progressToken !== undefined
+        ? createProgressNotifier(progressToken, extra.sendNotification)
+        : undefined;
+
     // Args validated by Zod schema; cast is safe
-    const result = handleCompressLogs(args as CompressLogsArgs);
+    const result = await handleCompressLogFile(args as CompressLogFileArgs, {
+      rootUris: await listClientRoots(extra),
+      onProgress,
+      sessionId: extra.sessionId,
+    });
     return {
       content: result.content,
+      structuredContent: result.structuredContent,
       isError: result.isError,
     };
   }
@@ -114,6 +236,30 @@ server.tool(
       .max(100)
       .optional()
       .describe('Maximum templates to return (default: 20)'),
+    input_format: z
+      .enum(INPUT_FORMATS)
+      .optional()
+      .describe(
+        'Input format (default: auto, detected from the first lines): text (as-is), ndjson, docker, cri, kubectl, journald, syslog, access_log, or chrome_console'
+      ),
+    message_field: z
+      .string()
+      .optional()
+      .describe('NDJSON field to cluster, dotted paths allowed (default: "message")'),
+    level_field: z
+      .string()
+      .optional()
+      .describe('NDJSON field holding the log level (default: "level")'),
+    attribute_fields: z
+      .array(z.string())
+      .optional()
+      .describe('NDJSON fields to summarize per template (default: all other scalar fields)'),
+    multiline: z
+      .boolean()
+      .optional()
+      .describe(
+        'Group stack traces (JS/Java frames, Caused by chains, Python tracebacks, Go panics) with the line they follow (default: false)'
+      ),
   },
   async (args) => {
     // Args validated by Zod schema; cast is safe
@@ -131,12 +277,108 @@ server.tool(
   estimateCompressionDescription,
   {
     logs: z.string().describe('Raw log content to estimate compression for'),
+    tokenizer: z
+      .enum(TOKENIZER_NAMES)
+      .optional()
+      .describe('Tokenizer to count tokens with (default: cl100k_base)'),
+  },
+  async (args) => {
+    // Args validated by Zod schema; cast is safe
+    const result = await handleEstimateCompression(args as EstimateCompressionArgs);
+    return {
+      content: result.content,
+      isError: result.isError,
+    };
+  }
+);
+
+// Register diff_log_runs tool
+server.registerTool(
+  'diff_log_runs',
+  {
+    description: diffLogRunsDescription,
+    inputSchema: diffLogRunsSchema.shape,
+    outputSchema: diffLogRunsOutputSchema,
+  },
+  async (args, extra) => {
+    // Args validated by Zod schema; cast is safe
+    const result = await handleDiffLogRuns(args as DiffLogRunsArgs, extra.sessionId);
+    return {
+      content: result.content,
+      structuredContent: result.structuredContent,
+      isError: result.isError,
+    };
+  }
+);
+
+// Register save_baseline tool
+server.tool(
+  'save_baseline',
+  saveBaselineDescription,
+  {
+    name: z.string().describe('Baseline name, e.g. "prod-api-normal"'),
+    task_id: z.string().describe('Completed task ID of a healthy run'),
+  },
+  async (args, extra) => {
+    // Args validated by Zod schema; cast is safe
+    const result = handleSaveBaseline(args as SaveBaselineArgs, extra.sessionId);
+    return {
+      content: result.content,
+      isError: result.isError,
+    };
+  }
+);
+
+// Register delete_baseline tool
+server.tool(
+  'delete_baseline',
+  deleteBaselineDescription,
+  {
+    name: z.string().describe('Name of the baseline to delete'),
   },
   async (args) => {
     // Args validated by Zod schema; cast is safe
-    const result = handleEstimateCompression(args as EstimateCompressionArgs);
+    const result = handleDeleteBaseline(args as DeleteBaselineArgs);
+    return {
+      content: result.content,
+      isError: result.isError,
+    };
+  }
+);
+
+// Register get_task_status tool
+server.registerTool(
+  'get_task_status',
+  {
+    description: getTaskStatusDescription,
+    inputSchema: getTaskStatusSchema.shape,
+    outputSchema: taskStatusOutputSchema,
+  },
+  async (args, extra) => {
+    // Args validated by Zod schema; cast is safe
+    const result = handleGetTaskStatus(args as GetTaskStatusArgs, extra.sessionId);
+    return {
+      content: result.content,
+      structuredContent: result.structuredContent,
+      isError: result.isError,
+    };
+  }
+);
+
+// Register cancel_task tool
+server.registerTool(
+  'cancel_task',
+  {
+    description: cancelTaskDescription,
+    inputSchema: cancelTaskSchema.shape,
+    outputSchema: taskStatusOutputSchema,
+  },
+  async (args, extra) => {
+    // Args validated by Zod schema; cast is safe
+    const result = handleCancelTask(args as CancelTaskArgs, extra.sessionId);
     return {
       content: result.content,
+      structuredContent: result.structuredContent,
       isError: result.isError,
     };
   }
@@ -151,7 +393,7 @@ registerPrompts(server);
 // Graceful shutdown with timeout
 const SHUTDOWN_TIMEOUT_MS = 5000;
 
-function gracefulShutdown() {
+async function gracefulShutdown() {
   console.error('[logpare-mcp] Shutting down...');
 
   const forceExit = setTimeout(() => {
@@ -160,6 +402,7 @@ function gracefulShutdown() {
   }, SHUTDOWN_TIMEOUT_MS);
 
   taskStore.destroy();
+  await compressionPool.destroy();
   if (httpSessionManager) {
     httpSessionManager.closeAllSessions();
   }
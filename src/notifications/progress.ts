@@ -0,0 +1,38 @@
+import type { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import type { TaskProgress } from '../stores/task-store.js';
+
+/** Progress token from a request's _meta (string or number per the MCP spec) */
+export type ProgressToken = string | number;
+
+/**
+ * Create a callback that forwards TaskProgress as MCP notifications/progress.
+ *
+ * Progress is reported as a percentage (total: 100) because processed line
+ * counts restart between Drain phases, and the spec requires progress to
+ * increase monotonically. Phase and line counts go in the message.
+ */
+export function createProgressNotifier(
+  progressToken: ProgressToken,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): (progress: TaskProgress) => void {
+  let lastPercent = -1;
+
+  return (progress) => {
+    const percent = Math.min(Math.max(progress.percent, 0), 100);
+    if (percent <= lastPercent) return;
+    lastPercent = percent;
+
+    sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: percent,
+        total: 100,
+        message: `${progress.currentPhase}: ${progress.statusMessage}`,
+      },
+    }).catch((error) => {
+      // Client may have disconnected; progress is best-effort
+      console.error('[logpare-mcp] Failed to send progress notification:', error);
+    });
+  };
+}
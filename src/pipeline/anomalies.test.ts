@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Template } from 'logpare';
+import { detectAnomalies, MAX_SERIES_BUCKETS } from './anomalies.js';
+import { TimelineCollector, type Timelines } from './timestamps.js';
+
+const START = Date.UTC(2024, 0, 15, 12, 0, 0);
+const MINUTE = 60_000;
+
+function template(id: string, severity: Template['severity'] = 'error'): Template {
+  return { id, pattern: `${id} <*>`, severity, isStackFrame: false } as Template;
+}
+
+/**
+ * Timelines from (template, minute offset) events over 20 one-minute buckets.
+ */
+function timelines(events: Array<[string, number]>, bucketMs = MINUTE): Timelines {
+  const collector = new TimelineCollector(bucketMs);
+  // Pin the range to the full 20 minutes
+  collector.add('', undefined, START);
+  for (const [id, minute] of events) {
+    collector.add('', id, START + minute * MINUTE);
+  }
+  collector.add('', undefined, START + 19 * MINUTE);
+  return collector.result();
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from }, (_, i) => from + i);
+}
+
+test('reports a burst far above the typical rate as a spike', () => {
+  const events: Array<[string, number]> = range(0, 20).map((minute) => ['burst', minute]);
+  for (let i = 0; i < 20; i++) events.push(['burst', 10]);
+
+  const [spike, ...rest] = detectAnomalies([template('burst')], timelines(events));
+  assert.equal(rest.length, 0);
+  assert.equal(spike.kind, 'spike');
+  assert.equal(spike.occurrences, 21);
+  assert.equal(spike.expected, 1);
+  assert.equal(spike.start, new Date(START + 10 * MINUTE).toISOString());
+  assert.equal(spike.end, new Date(START + 11 * MINUTE).toISOString());
+});
+
+test('reports patterns that start or stop partway through', () => {
+  const events: Array<[string, number]> = [
+    ...range(0, 20).map((minute): [string, number] => ['steady', minute]),
+    ...range(10, 20).map((minute): [string, number] => ['late', minute]),
+    ...range(0, 10).map((minute): [string, number] => ['early', minute]),
+  ];
+
+  const anomalies = detectAnomalies(
+    [template('steady', 'info'), template('late'), template('early', 'warning')],
+    timelines(events)
+  );
+  assert.deepEqual(
+    anomalies.map((a) => [a.kind, a.templateId]),
+    [
+      ['onset', 'late'],
+      ['cessation', 'early'],
+    ]
+  );
+  assert.equal(anomalies[1].expected, 10);
+});
+
+test('needs timestamps spanning at least 4 buckets', () => {
+  const collector = new TimelineCollector(MINUTE);
+  collector.add('no timestamp', 'a');
+  assert.deepEqual(detectAnomalies([template('a')], collector.result()), []);
+
+  const short = new TimelineCollector(MINUTE);
+  for (let i = 0; i < 50; i++) short.add('', 'a', START + (i % 3) * MINUTE);
+  assert.deepEqual(detectAnomalies([template('a')], short.result()), []);
+});
+
+test('merges buckets when the range spans too many of them', () => {
+  const second = 1000;
+  const days = 30;
+  const collector = new TimelineCollector(second);
+  // One line an hour for 30 days, plus a burst within one second
+  for (let hour = 0; hour <= days * 24; hour++) {
+    collector.add('', 'steady', START + hour * 3_600_000);
+  }
+  const burstAt = START + 15 * 24 * 3_600_000 + 1_800_000;
+  for (let i = 0; i < 50; i++) collector.add('', 'steady', burstAt);
+
+  const [spike] = detectAnomalies([template('steady')], collector.result());
+  const mergedMs = second * Math.ceil((days * 86_400 + 1) / MAX_SERIES_BUCKETS);
+  assert.equal(spike.kind, 'spike');
+  assert.equal(Date.parse(spike.end) - Date.parse(spike.start), mergedMs);
+  assert.ok(Date.parse(spike.start) <= burstAt && burstAt < Date.parse(spike.end));
+});
@@ -0,0 +1,170 @@
+import type { Template } from 'logpare';
+import type { Timelines } from './timestamps.js';
+
+/** Bucket count vs the template's typical count that counts as a spike */
+const SPIKE_RATIO = 4;
+
+/** Minimum excess over the typical count for a bucket to be a spike */
+const MIN_SPIKE_OCCURRENCES = 5;
+
+/** Input must span at least this many buckets for rates to mean anything */
+const MIN_SERIES_BUCKETS = 4;
+
+/** Buckets per series before buckets are merged (each template gets two arrays) */
+export const MAX_SERIES_BUCKETS = 10_000;
+
+/** Quiet share of the input before an onset or after a cessation */
+const QUIET_FRACTION = 0.25;
+
+/** Minimum occurrences for a template's start or stop to be reported */
+const MIN_ABRUPT_OCCURRENCES = 5;
+
+/** Upper bound on anomalies returned */
+const MAX_ANOMALIES = 50;
+
+/**
+ * Kind of anomaly:
+ * - spike: a window where the template's rate far exceeds its typical rate
+ * - onset: the template was absent, then appeared and kept occurring
+ * - cessation: the template occurred, then stopped for the rest of the input
+ */
+export type AnomalyKind = 'spike' | 'onset' | 'cessation';
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  templateId: string;
+  pattern: string;
+  severity: Template['severity'];
+  /** Start of the anomalous window (ISO-8601) */
+  start: string;
+  /** End of the anomalous window (ISO-8601) */
+  end: string;
+  /** Occurrences in the window */
+  occurrences: number;
+  /** Occurrences expected in the window at the template's typical rate */
+  expected: number;
+}
+
+const SEVERITY_RANK: Record<string, number> = { error: 3, warning: 2, info: 1 };
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Bucket size for the series: the timeline's, or a multiple of it so the
+ * input range spans at most MAX_SERIES_BUCKETS buckets.
+ */
+function seriesBucketMs(timelines: Timelines, start: number, end: number): number {
+  const { bucketMs } = timelines;
+  const span = Math.floor(end / bucketMs) - Math.floor(start / bucketMs) + 1;
+  return bucketMs * Math.max(1, Math.ceil(span / MAX_SERIES_BUCKETS));
+}
+
+/**
+ * Detect rate anomalies in per-template timelines.
+ *
+ * Each template's histogram is expanded over the whole input time range
+ * (empty buckets included), and compared against its own typical rate:
+ * the median bucket count. Long ranges are compared in merged buckets.
+ * Needs timestamps; returns nothing without them.
+ */
+export function detectAnomalies(templates: Template[], timelines: Timelines): Anomaly[] {
+  if (!timelines.range) return [];
+
+  const rangeStart = Date.parse(timelines.range.start);
+  const rangeEnd = Date.parse(timelines.range.end);
+  const bucketMs = seriesBucketMs(timelines, rangeStart, rangeEnd);
+  const firstBucket = Math.floor(rangeStart / bucketMs) * bucketMs;
+  const lastBucket = Math.floor(rangeEnd / bucketMs) * bucketMs;
+  const bucketCount = (lastBucket - firstBucket) / bucketMs + 1;
+  if (bucketCount < MIN_SERIES_BUCKETS) return [];
+
+  const bucketStart = (index: number) => new Date(firstBucket + index * bucketMs).toISOString();
+  const anomalies: Anomaly[] = [];
+
+  for (const t of templates) {
+    const timeline = timelines.templates[t.id];
+    // Stack frames follow their errors; reporting both would duplicate
+    if (!timeline || t.isStackFrame) continue;
+
+    const series = new Array<number>(bucketCount).fill(0);
+    for (const bucket of timeline.histogram) {
+      series[Math.floor((Date.parse(bucket.start) - firstBucket) / bucketMs)] += bucket.count;
+    }
+
+    const base = { templateId: t.id, pattern: t.pattern, severity: t.severity };
+    const typical = median(series);
+    const spikeFloor = Math.max(typical * SPIKE_RATIO, typical + MIN_SPIKE_OCCURRENCES);
+    const inSpike = new Array<boolean>(bucketCount).fill(false);
+
+    // Spikes: runs of consecutive buckets far above the typical count
+    for (let i = 0; i < bucketCount; i++) {
+      if (series[i] < spikeFloor) continue;
+
+      let end = i;
+      while (end + 1 < bucketCount && series[end + 1] >= spikeFloor) end++;
+
+      let occurrences = 0;
+      for (let j = i; j <= end; j++) {
+        occurrences += series[j];
+        inSpike[j] = true;
+      }
+      anomalies.push({
+        ...base,
+        kind: 'spike',
+        start: bucketStart(i),
+        end: bucketStart(end + 1),
+        occurrences,
+        expected: typical * (end - i + 1),
+      });
+      i = end;
+    }
+
+    const first = series.findIndex((count) => count > 0);
+    const last = bucketCount - 1 - [...series].reverse().findIndex((count) => count > 0);
+    const active = series.slice(first, last + 1);
+    const total = active.reduce((sum, count) => sum + count, 0);
+    if (total < MIN_ABRUPT_OCCURRENCES) continue;
+
+    // A short burst is already reported as a spike
+    const onlySpike = series.every((count, i) => count === 0 || inSpike[i]);
+    if (onlySpike) continue;
+
+    const quietBuckets = Math.max(2, Math.ceil(bucketCount * QUIET_FRACTION));
+
+    if (first >= quietBuckets) {
+      anomalies.push({
+        ...base,
+        kind: 'onset',
+        start: timeline.firstTimestamp,
+        end: timelines.range.end,
+        occurrences: total,
+        expected: 0,
+      });
+    }
+
+    if (bucketCount - 1 - last >= quietBuckets) {
+      const activeRate = total / active.length;
+      anomalies.push({
+        ...base,
+        kind: 'cessation',
+        start: timeline.lastTimestamp,
+        end: timelines.range.end,
+        occurrences: 0,
+        expected: Math.round(activeRate * (bucketCount - 1 - last)),
+      });
+    }
+  }
+
+  // Most severe first, then largest deviation
+  return anomalies
+    .sort(
+      (a, b) =>
+        (SEVERITY_RANK[b.severity] ?? 0) - (SEVERITY_RANK[a.severity] ?? 0) ||
+        Math.abs(b.occurrences - b.expected) - Math.abs(a.occurrences - a.expected)
+    )
+    .slice(0, MAX_ANOMALIES);
+}
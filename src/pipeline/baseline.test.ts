@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCompression, type CompressionOptions } from './compress.js';
+import { profileFromTaskResult } from './diff.js';
+import type { BaselineSnapshot } from '../stores/baseline-store.js';
+
+/** A run with more templates than max_templates keeps */
+function manyTemplates(): string {
+  const services = ['auth', 'billing', 'search', 'mailer', 'gateway', 'catalog', 'reports'];
+  const lines: string[] = [];
+  services.forEach((service, i) => {
+    for (let n = 0; n <= i; n++) {
+      lines.push(`INFO ${service} handled request ${n}`);
+    }
+  });
+  return lines.join('\n');
+}
+
+test('a run compared to a baseline saved from the same input has no new templates', async () => {
+  const source = { type: 'text' as const, logs: manyTemplates() };
+  const options: CompressionOptions = { format: 'json', maxTemplates: 3 };
+
+  const saved = await runCompression(source, options);
+  assert.ok(saved.structuredContent.uniqueTemplates > options.maxTemplates);
+
+  const profile = profileFromTaskResult('saved', {
+    content: [],
+    structuredContent: { ...saved.structuredContent, processingTimeMs: 0 },
+    runTemplates: saved.runTemplates,
+  });
+  const baseline: BaselineSnapshot = {
+    name: 'healthy',
+    inputLines: profile.inputLines,
+    templates: profile.templates,
+  };
+
+  const compared = await runCompression(source, { ...options, baseline });
+  assert.equal(compared.structuredContent.baseline?.new, 0);
+  assert.equal(compared.structuredContent.baseline?.abnormal, 0);
+});
@@ -0,0 +1,84 @@
+import type { Template } from 'logpare';
+import type { BaselineSnapshot } from '../stores/baseline-store.js';
+import { hydratePattern } from '../formats/smart.js';
+import { createTemplateMatcher } from './examples.js';
+
+/** Rate change (either direction) versus the baseline that counts as abnormal */
+const ABNORMAL_RATIO = 3;
+
+/** Minimum absolute difference from the expected count to be abnormal */
+const MIN_ABNORMAL_OCCURRENCES = 5;
+
+/**
+ * How a template relates to the baseline:
+ * - known: seen in the baseline at a similar rate
+ * - new: not seen in the baseline
+ * - abnormal: seen in the baseline, but at a very different rate
+ */
+export type BaselineStatus = 'known' | 'new' | 'abnormal';
+
+export interface TemplateBaselineStatus {
+  status: BaselineStatus;
+  /** Occurrences in the baseline (null for new templates) */
+  baselineOccurrences: number | null;
+  /** Current rate / baseline rate, per input line (null for new templates) */
+  changeRatio: number | null;
+}
+
+export interface BaselineComparison {
+  name: string;
+  /** Status per template ID */
+  statuses: Record<string, TemplateBaselineStatus>;
+  counts: Record<BaselineStatus, number>;
+}
+
+/**
+ * Compare a compression's templates against a saved baseline.
+ * Templates are matched by exact pattern first, then by matching a
+ * hydrated sample line against the baseline's patterns.
+ */
+export function compareToBaseline(
+  templates: Template[],
+  inputLines: number,
+  baseline: BaselineSnapshot
+): BaselineComparison {
+  const baselineTemplates = baseline.templates.map((t, index) => ({ ...t, id: String(index) }));
+  const byPattern = new Map(baselineTemplates.map((t) => [t.pattern, t]));
+  const matchTemplate = createTemplateMatcher(baselineTemplates);
+
+  const statuses: Record<string, TemplateBaselineStatus> = {};
+  const counts: Record<BaselineStatus, number> = { known: 0, new: 0, abnormal: 0 };
+
+  for (const t of templates) {
+    const matchedId =
+      byPattern.get(t.pattern)?.id ??
+      matchTemplate(hydratePattern(t.pattern, t.sampleVariables[0] || []));
+    const match = matchedId !== undefined ? baselineTemplates[Number(matchedId)] : undefined;
+
+    let entry: TemplateBaselineStatus;
+    if (!match) {
+      entry = { status: 'new', baselineOccurrences: null, changeRatio: null };
+    } else {
+      const baselineRate = baseline.inputLines > 0 ? match.occurrences / baseline.inputLines : 0;
+      const rate = inputLines > 0 ? t.occurrences / inputLines : 0;
+      const changeRatio = baselineRate > 0 ? rate / baselineRate : null;
+      const expected = baselineRate * inputLines;
+
+      const ratio = changeRatio ?? 1;
+      const abnormal =
+        (ratio >= ABNORMAL_RATIO || ratio <= 1 / ABNORMAL_RATIO) &&
+        Math.abs(t.occurrences - expected) >= MIN_ABNORMAL_OCCURRENCES;
+
+      entry = {
+        status: abnormal ? 'abnormal' : 'known',
+        baselineOccurrences: match.occurrences,
+        changeRatio,
+      };
+    }
+
+    statuses[t.id] = entry;
+    counts[entry.status]++;
+  }
+
+  return { name: baseline.name, statuses, counts };
+}
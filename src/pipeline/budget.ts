@@ -0,0 +1,204 @@
+import type { Template } from 'logpare';
+import { DEFAULT_SECTION_LIMITS, isCritical, type SmartSectionLimits } from '../formats/smart.js';
+import { DEFAULT_CLASSIFICATION_RULES, type ClassificationRules } from './classification.js';
+import type { Tokenizer, TokenizerName } from './tokenizer.js';
+
+/** Drain similarity threshold when none is given (logpare's default) */
+export const DEFAULT_THRESHOLD = 0.4;
+
+/** Lower thresholds tried, in order, when trimming output alone can't fit */
+const BUDGET_THRESHOLD_STEPS = [0.3, 0.2];
+
+/**
+ * What budget mode did to fit the output.
+ */
+export interface BudgetReport {
+  maxOutputTokens: number;
+  /** Tokenizer the output was measured with */
+  tokenizer: TokenizerName;
+  /** Tokens in the returned text, excluding the budget line */
+  outputTokens: number;
+  /** False if the output is still over budget after every adjustment */
+  fits: boolean;
+  /** Similarity threshold of the final clustering */
+  threshold: number;
+  /** Templates kept in the text (structured content lists them all) */
+  templates: number;
+  /** Knobs adjusted, in the order they were applied */
+  adjustments: string[];
+}
+
+/**
+ * Output that was fitted to a budget: the text and the templates it covers.
+ */
+export interface FittedOutput {
+  text: string;
+  templates: Template[];
+  fits: boolean;
+  adjustments: string[];
+}
+
+interface BudgetState {
+  templates: Template[];
+  limits: SmartSectionLimits;
+  /** Rules that decide which templates are critical */
+  rules: ClassificationRules;
+}
+
+/**
+ * Trimming steps for smart output, least useful content first. Each step
+ * builds on the previous ones. Errors and critical templates are never
+ * dropped.
+ */
+const SMART_BUDGET_STEPS: Array<{
+  adjustment: string;
+  apply: (state: BudgetState) => BudgetState;
+}> = [
+  {
+    adjustment: 'dropped INFO sections',
+    apply: (s) => ({ ...s, limits: { ...s.limits, info: false } }),
+  },
+  {
+    adjustment: 'dropped INFO templates',
+    apply: (s) => ({
+      ...s,
+      templates: s.templates.filter(
+        (t) => t.isStackFrame || t.severity !== 'info' || isCritical(t, s.rules)
+      ),
+    }),
+  },
+  {
+    adjustment: 'dropped summary sections (files, status codes, IDs, durations)',
+    apply: (s) => ({ ...s, limits: { ...s.limits, summaries: false } }),
+  },
+  {
+    adjustment: 'dropped template timelines',
+    apply: (s) => ({ ...s, limits: { ...s.limits, timelines: false } }),
+  },
+  {
+    adjustment: 'dropped template attributes',
+    apply: (s) => ({ ...s, limits: { ...s.limits, attributes: false } }),
+  },
+  {
+    adjustment: 'listed 5 warnings and 3 expected failures',
+    apply: (s) => ({
+      ...s,
+      limits: { ...s.limits, warnings: 5, performanceViolations: 5, expectedFailures: 3 },
+    }),
+  },
+  {
+    adjustment: 'listed 5 baseline changes and 5 anomalies',
+    apply: (s) => ({ ...s, limits: { ...s.limits, baselineChanges: 5, anomalies: 5 } }),
+  },
+  {
+    adjustment: 'showed stack traces for the first error only',
+    apply: (s) => ({
+      ...s,
+      limits: { ...s.limits, errorsWithStacks: 1, stackFramesPerError: 3 },
+    }),
+  },
+  {
+    adjustment: 'listed 2 warnings and 1 expected failure',
+    apply: (s) => ({
+      ...s,
+      limits: { ...s.limits, warnings: 2, performanceViolations: 2, expectedFailures: 1 },
+    }),
+  },
+  {
+    adjustment: 'listed 2 baseline changes and 2 anomalies',
+    apply: (s) => ({ ...s, limits: { ...s.limits, baselineChanges: 2, anomalies: 2 } }),
+  },
+  {
+    adjustment: 'dropped stack frame templates',
+    apply: (s) => ({
+      ...s,
+      templates: s.templates.filter((t) => !t.isStackFrame),
+    }),
+  },
+  {
+    adjustment: 'dropped WARNING templates',
+    apply: (s) => ({
+      ...s,
+      templates: s.templates.filter((t) => t.severity !== 'warning' || isCritical(t, s.rules)),
+    }),
+  },
+];
+
+/**
+ * Trim smart output until it fits: drop sections and templates, least
+ * useful first (INFO before warnings; errors and critical templates are
+ * always kept).
+ * Steps that change neither the text nor the templates are not reported.
+ */
+export function fitSmartOutput(
+  templates: Template[],
+  maxTokens: number,
+  tokenizer: Tokenizer,
+  render: (templates: Template[], limits: SmartSectionLimits) => string,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+): FittedOutput {
+  let state: BudgetState = { templates, limits: { ...DEFAULT_SECTION_LIMITS }, rules };
+  let text = render(state.templates, state.limits);
+  const adjustments: string[] = [];
+
+  for (const step of SMART_BUDGET_STEPS) {
+    if (tokenizer.count(text) <= maxTokens) break;
+
+    const next = step.apply(state);
+    const nextText = render(next.templates, next.limits);
+    if (nextText !== text || next.templates.length !== state.templates.length) {
+      adjustments.push(step.adjustment);
+    }
+    state = next;
+    text = nextText;
+  }
+
+  return { text, templates: state.templates, fits: tokenizer.count(text) <= maxTokens, adjustments };
+}
+
+/**
+ * Fit output from logpare's own formatters by halving the template count.
+ */
+export function fitFormattedOutput(
+  templates: Template[],
+  maxTokens: number,
+  tokenizer: Tokenizer,
+  render: (maxTemplates: number) => string
+): FittedOutput {
+  let count = templates.length;
+  let text = render(count);
+  const adjustments: string[] = [];
+
+  while (tokenizer.count(text) > maxTokens && count > 1) {
+    count = Math.ceil(count / 2);
+    text = render(count);
+  }
+  if (count < templates.length) {
+    adjustments.push(`reduced templates to ${count}`);
+  }
+
+  return {
+    text,
+    templates: templates.slice(0, count),
+    fits: tokenizer.count(text) <= maxTokens,
+    adjustments,
+  };
+}
+
+/**
+ * Next lower similarity threshold to re-cluster at, if any.
+ */
+export function nextBudgetThreshold(threshold: number): number | undefined {
+  return BUDGET_THRESHOLD_STEPS.find((step) => step < threshold);
+}
+
+/**
+ * Format the budget line appended to the output.
+ */
+export function formatBudgetLine(report: BudgetReport): string {
+  const usage = `${report.outputTokens.toLocaleString()} of ${report.maxOutputTokens.toLocaleString()} tokens (${report.tokenizer})`;
+  const status = report.fits ? usage : `${usage} (over budget; errors are never dropped)`;
+  const changes =
+    report.adjustments.length > 0 ? report.adjustments.join('; ') : 'no adjustments needed';
+  return `Budget: ${status} | ${changes}`;
+}
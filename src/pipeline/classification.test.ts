@@ -0,0 +1,132 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  compileClassificationRules,
+  DEFAULT_CLASSIFICATION_RULES,
+  loadConfigFile,
+  resolveClassificationSettings,
+} from './classification.js';
+import { CompressionError } from '../errors.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'logpare-config-'));
+const configPath = join(dir, 'logpare.config.json');
+const previousConfigFile = process.env.MCP_CONFIG_FILE;
+process.env.MCP_CONFIG_FILE = configPath;
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+  if (previousConfigFile === undefined) delete process.env.MCP_CONFIG_FILE;
+  else process.env.MCP_CONFIG_FILE = previousConfigFile;
+});
+
+function sources(patterns: RegExp[]): string[] {
+  return patterns.map((pattern) => pattern.source);
+}
+
+/**
+ * Write the config file with a distinct mtime, so a cached read is stale.
+ */
+function writeConfig(content: unknown, mtime: number): void {
+  writeFileSync(configPath, typeof content === 'string' ? content : JSON.stringify(content));
+  utimesSync(configPath, mtime, mtime);
+}
+
+function invalidConfig(error: unknown): boolean {
+  return error instanceof CompressionError && error.code === 'INVALID_CONFIG';
+}
+
+test('add and remove edit the default rule lists', () => {
+  const rules = compileClassificationRules({
+    expectedFailureDomains: { remove: ['analytics', 'PIXEL'], add: ['Ads.Example.com'] },
+    successPatterns: { remove: ['\\bOK\\b'], add: ['job done'] },
+  });
+
+  const domains = DEFAULT_CLASSIFICATION_RULES.expectedFailureDomains;
+  assert.deepEqual(rules.expectedFailureDomains, [
+    ...domains.filter((domain) => domain !== 'analytics' && domain !== 'pixel'),
+    'ads.example.com',
+  ]);
+  assert.deepEqual(sources(rules.successPatterns), [
+    ...sources(DEFAULT_CLASSIFICATION_RULES.successPatterns).filter(
+      (source) => source !== '\\bOK\\b'
+    ),
+    'job done',
+  ]);
+  assert.equal(rules.successPatterns.at(-1)?.flags, 'i');
+  // Untouched lists keep the defaults
+  assert.deepEqual(rules.performancePatterns, DEFAULT_CLASSIFICATION_RULES.performancePatterns);
+});
+
+test('a list replaces the rules, and edits apply on top of the profile', () => {
+  const replaced = compileClassificationRules({ criticalPatterns: ['boom'] });
+  assert.deepEqual(sources(replaced.criticalPatterns), ['boom']);
+
+  const nginx = compileClassificationRules(undefined, 'nginx');
+  assert.ok(sources(nginx.criticalPatterns).includes('HTTP\\/\\S+ 504 '));
+  assert.deepEqual(nginx.expectedFailureDomains, []);
+
+  // remove matches a pattern as written, even where RegExp escapes it
+  const edited = compileClassificationRules(
+    { criticalPatterns: { remove: ['HTTP/\\S+ 504 '], add: ['upstream sent too big header'] } },
+    'nginx'
+  );
+  assert.deepEqual(sources(edited.criticalPatterns), [
+    'upstream timed out',
+    'no live upstreams',
+    'upstream sent too big header',
+  ]);
+
+  // Profile add lists extend the defaults
+  const kubernetes = compileClassificationRules(undefined, 'kubernetes');
+  assert.equal(
+    kubernetes.successPatterns.length,
+    DEFAULT_CLASSIFICATION_RULES.successPatterns.length + 3
+  );
+});
+
+test('invalid patterns fail with INVALID_CONFIG', () => {
+  assert.throws(
+    () => compileClassificationRules({ criticalPatterns: { add: ['(unclosed'] } }),
+    invalidConfig
+  );
+});
+
+test('the config file is reread only when it changes', () => {
+  writeConfig({ profile: 'jvm', classification: { criticalPatterns: ['boom'] } }, 1_700_000_000);
+  const first = loadConfigFile();
+  assert.deepEqual(first, { profile: 'jvm', classification: { criticalPatterns: ['boom'] } });
+  assert.equal(loadConfigFile(), first);
+
+  writeConfig({ profile: 'nginx' }, 1_700_000_100);
+  assert.deepEqual(loadConfigFile(), { profile: 'nginx' });
+});
+
+test('per-call settings override the config file key by key', () => {
+  writeConfig(
+    { profile: 'postgres', classification: { criticalPatterns: ['a'], successPatterns: ['b'] } },
+    1_700_000_200
+  );
+
+  assert.deepEqual(resolveClassificationSettings({ criticalPatterns: ['c'] }), {
+    profile: 'postgres',
+    classification: { criticalPatterns: ['c'], successPatterns: ['b'] },
+  });
+  assert.equal(resolveClassificationSettings(undefined, 'auto').profile, 'auto');
+});
+
+test('invalid or missing config files fail with INVALID_CONFIG', () => {
+  const invalid = ['{ not json', { profile: 'mainframe' }, { classification: { unknown: [] } }];
+  for (const [i, content] of invalid.entries()) {
+    writeConfig(content, 1_700_000_300 + i);
+    assert.throws(() => loadConfigFile(), invalidConfig);
+  }
+
+  writeConfig({ classification: { criticalPatterns: ['(unclosed'] } }, 1_700_000_400);
+  assert.throws(() => resolveClassificationSettings(), invalidConfig);
+
+  rmSync(configPath);
+  assert.throws(() => loadConfigFile(), invalidConfig);
+});
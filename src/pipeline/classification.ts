@@ -0,0 +1,287 @@
+/**
+ * Rules that classify templates in the smart format: critical problems,
+ * expected failures (ad blockers, blocked analytics), performance
+ * violations, and success signals. The defaults suit browser console logs;
+ * a rule profile, a config file, and the per-call classification_rules
+ * argument adjust them, in that order.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { CompressionError } from '../errors.js';
+import {
+  DEFAULT_PROFILE,
+  PROFILE_OPTIONS,
+  RULE_PROFILES,
+  type ProfileOption,
+  type RuleProfile,
+} from './profiles.js';
+
+/** Config file looked up in the working directory when MCP_CONFIG_FILE isn't set */
+export const CONFIG_FILE_NAME = 'logpare.config.json';
+
+/**
+ * Compiled classification rules.
+ */
+export interface ClassificationRules {
+  /** Templates of any severity whose message matches are critical */
+  criticalPatterns: RegExp[];
+  /** Errors whose message matches are expected failures */
+  expectedFailurePatterns: RegExp[];
+  /** Errors with a URL containing one of these (domains or keywords) are expected failures */
+  expectedFailureDomains: string[];
+  /** Warnings and info whose message matches are performance violations */
+  performancePatterns: RegExp[];
+  /** INFO templates whose message matches are success signals */
+  successPatterns: RegExp[];
+}
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRules = {
+  criticalPatterns: [],
+  expectedFailurePatterns: [
+    /ERR_BLOCKED_BY_CLIENT/i,
+    /net::ERR_/i,
+    /Failed to fetch/i,
+    /NetworkError/i,
+    /blocked by client/i,
+  ],
+  expectedFailureDomains: [
+    'monorail-edge.shopifysvc.com',
+    'api.amplitude.com',
+    'connect.facebook.net',
+    'kameleoon.io',
+    'cdn.attn.tv',
+    'ping.fastsimon.com',
+    'www.google-analytics.com',
+    'stats.g.doubleclick.net',
+    'www.googletagmanager.com',
+    'analytics',
+    'tracking',
+    'pixel',
+    'beacon',
+  ],
+  performancePatterns: [/\[Violation\]/i, /handler took/i, /Forced reflow/i, /Long task/i],
+  successPatterns: [
+    /\b200\b/,
+    /\bOK\b/,
+    /\bsuccess/i,
+    /\bcomplete[d]?\b/i,
+    /\bloaded\b/i,
+    /\bconnected\b/i,
+    /\bready\b/i,
+  ],
+};
+
+/**
+ * A rule list: an array replaces the defaults, add/remove edits them.
+ * Patterns are regular expressions (case-insensitive); remove matches a
+ * default by its source as listed in the README.
+ */
+const ruleListSchema = z.union([
+  z.array(z.string()),
+  z
+    .object({
+      add: z.array(z.string()).optional(),
+      remove: z.array(z.string()).optional(),
+    })
+    .strict(),
+]);
+
+export const classificationRulesSchema = z
+  .object({
+    criticalPatterns: ruleListSchema.optional(),
+    expectedFailurePatterns: ruleListSchema.optional(),
+    expectedFailureDomains: ruleListSchema.optional(),
+    performancePatterns: ruleListSchema.optional(),
+    successPatterns: ruleListSchema.optional(),
+  })
+  .strict();
+
+export type ClassificationConfig = z.infer<typeof classificationRulesSchema>;
+
+type RuleList = z.infer<typeof ruleListSchema>;
+
+const configFileSchema = z.object({
+  /** Rule profile used when a call doesn't choose one */
+  profile: z.enum(PROFILE_OPTIONS).optional(),
+  classification: classificationRulesSchema.optional(),
+});
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * Profile and rule changes for a compression, from the config file and
+ * the call.
+ */
+export interface ClassificationSettings {
+  profile: ProfileOption;
+  /** Rule changes applied on top of the profile */
+  classification?: ClassificationConfig;
+}
+
+type PatternRule =
+  | 'criticalPatterns'
+  | 'expectedFailurePatterns'
+  | 'performancePatterns'
+  | 'successPatterns';
+
+/**
+ * Path of the config file: MCP_CONFIG_FILE, or logpare.config.json in the
+ * working directory.
+ */
+function configFilePath(): { path: string; explicit: boolean } {
+  const configured = process.env.MCP_CONFIG_FILE;
+  return configured
+    ? { path: resolve(configured), explicit: true }
+    : { path: resolve(process.cwd(), CONFIG_FILE_NAME), explicit: false };
+}
+
+/** Last config file read, reused until its path, size, or mtime changes */
+let cachedConfig: { path: string; mtimeMs: number; size: number; config: ConfigFile } | undefined;
+
+/**
+ * Read the config file, or reuse the last read while it's unchanged. A
+ * missing default file means an empty config; a missing MCP_CONFIG_FILE
+ * or an invalid file throws CompressionError('INVALID_CONFIG').
+ */
+export function loadConfigFile(): ConfigFile {
+  const { path, explicit } = configFilePath();
+
+  let text: string;
+  let mtimeMs: number;
+  let size: number;
+  try {
+    ({ mtimeMs, size } = statSync(path));
+    if (
+      cachedConfig?.path === path &&
+      cachedConfig.mtimeMs === mtimeMs &&
+      cachedConfig.size === size
+    ) {
+      return cachedConfig.config;
+    }
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    if (!explicit && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new CompressionError('INVALID_CONFIG', `Can't read config file ${path}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new CompressionError(
+      'INVALID_CONFIG',
+      `${path} is not valid JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new CompressionError(
+      'INVALID_CONFIG',
+      `${path}: ${issue.path.join('.') || 'config'}: ${issue.message}`
+    );
+  }
+  cachedConfig = { path, mtimeMs, size, config: result.data };
+  return result.data;
+}
+
+/**
+ * Combine the config file with per-call settings: a profile argument
+ * replaces the file's profile, and per-call rules override the file's rule
+ * lists key by key. Throws CompressionError('INVALID_CONFIG') for an
+ * invalid file or pattern.
+ */
+export function resolveClassificationSettings(
+  override?: ClassificationConfig,
+  profile?: ProfileOption
+): ClassificationSettings {
+  const file = loadConfigFile();
+  const config = { ...file.classification, ...override };
+  const settings: ClassificationSettings = {
+    profile: profile ?? file.profile ?? DEFAULT_PROFILE,
+    ...(Object.keys(config).length > 0 && { classification: config }),
+  };
+
+  // Fail before queueing work rather than in the worker
+  compileClassificationRules(settings.classification);
+  return settings;
+}
+
+function compilePattern(source: string, key: string): RegExp {
+  try {
+    return new RegExp(source, 'i');
+  } catch (error) {
+    throw new CompressionError(
+      'INVALID_CONFIG',
+      `Invalid pattern in ${key}: ${error instanceof Error ? error.message : source}`
+    );
+  }
+}
+
+/**
+ * A pattern's source as RegExp reports it ("a/b" becomes "a\/b"), for
+ * matching remove entries against compiled rules.
+ */
+function patternSource(source: string): string {
+  try {
+    return new RegExp(source).source;
+  } catch {
+    return source;
+  }
+}
+
+function applyRuleList<T>(
+  defaults: T[],
+  list: RuleList | undefined,
+  compile: (value: string) => T,
+  matches: (rule: T, value: string) => boolean
+): T[] {
+  if (!list) return defaults;
+  if (Array.isArray(list)) return list.map(compile);
+
+  const remove = list.remove ?? [];
+  return [
+    ...defaults.filter((rule) => !remove.some((value) => matches(rule, value))),
+    ...(list.add ?? []).map(compile),
+  ];
+}
+
+/**
+ * Apply a config to a set of rules.
+ */
+function applyConfig(base: ClassificationRules, config: ClassificationConfig): ClassificationRules {
+  const patterns = (key: PatternRule) =>
+    applyRuleList(
+      base[key],
+      config[key],
+      (source) => compilePattern(source, key),
+      (rule, source) => rule.source === patternSource(source)
+    );
+
+  return {
+    criticalPatterns: patterns('criticalPatterns'),
+    expectedFailurePatterns: patterns('expectedFailurePatterns'),
+    expectedFailureDomains: applyRuleList(
+      base.expectedFailureDomains,
+      config.expectedFailureDomains,
+      (domain) => domain.toLowerCase(),
+      (rule, domain) => rule === domain.toLowerCase()
+    ),
+    performancePatterns: patterns('performancePatterns'),
+    successPatterns: patterns('successPatterns'),
+  };
+}
+
+/**
+ * Apply a profile's rule pack, then a config, to the default rules.
+ */
+export function compileClassificationRules(
+  config?: ClassificationConfig,
+  profile: RuleProfile = DEFAULT_PROFILE
+): ClassificationRules {
+  const base = applyConfig(DEFAULT_CLASSIFICATION_RULES, RULE_PROFILES[profile].rules);
+  return config ? applyConfig(base, config) : base;
+}
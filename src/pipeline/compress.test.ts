@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCompression, type CompressionOptions } from './compress.js';
+
+/** A run with one error pattern among many INFO and warning patterns */
+function noisyLogs(): string {
+  const lines: string[] = [];
+  for (const job of ['backup', 'reindex', 'digest', 'cleanup', 'export', 'sync']) {
+    for (let n = 0; n < 3; n++) {
+      lines.push(`INFO scheduler ran ${job} job ${n}`);
+    }
+  }
+  for (const cache of ['users', 'orders', 'carts', 'prices', 'stock', 'sessions', 'tokens', 'images']) {
+    for (let n = 0; n < 3; n++) {
+      lines.push(`WARN cache ${cache} missed key ${n}, falling back to the primary database replica`);
+    }
+  }
+  for (let n = 0; n < 5; n++) {
+    lines.push(`ERROR payment ${n} failed: card declined`);
+  }
+  return lines.join('\n');
+}
+
+const options: CompressionOptions = { format: 'smart', maxTemplates: 50 };
+
+test('budget mode trims the text but keeps every template in structured content', async () => {
+  const source = { type: 'text' as const, logs: noisyLogs() };
+  const full = await runCompression(source, options);
+  const fitted = await runCompression(source, { ...options, maxOutputTokens: 200 });
+
+  const budget = fitted.structuredContent.budget!;
+  assert.ok(budget.adjustments.length > 0);
+  assert.ok(budget.templates < full.structuredContent.templates.length);
+  assert.deepEqual(
+    fitted.structuredContent.templates.map((t) => t.id),
+    full.structuredContent.templates.map((t) => t.id)
+  );
+  assert.ok(fitted.text.length < full.text.length);
+  assert.match(fitted.text, /payment \S+ failed: card declined/);
+});
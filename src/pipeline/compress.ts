@@ -0,0 +1,535 @@
+import { createDrain, type Template } from 'logpare';
+import type { TaskProgress, TaskResult } from '../stores/task-store.js';
+import {
+  categorizeTemplates,
+  formatSmart,
+  isCritical,
+  isExpectedFailure,
+  type SmartFormatOptions,
+  hydratePattern,
+  extractNumericRange,
+  isPerformanceViolation,
+} from '../formats/smart.js';
+import { createTemplateMatcher, ExampleCollector, type TemplateExamples } from './examples.js';
+import { TimelineCollector, type Timelines } from './timestamps.js';
+import { getSourceSize, readSourceLines, INGEST_BATCH_LINES, type LogSource } from './source.js';
+import { compareToBaseline } from './baseline.js';
+import { detectAnomalies } from './anomalies.js';
+import { groupIssues } from './issues.js';
+import { loadSourceMaps, type SourceMapResolver, type SourceMapStats } from './source-maps.js';
+import {
+  compileClassificationRules,
+  DEFAULT_CLASSIFICATION_RULES,
+  type ClassificationConfig,
+  type ClassificationRules,
+} from './classification.js';
+import {
+  resolveProfile,
+  suggestProfile,
+  type ProfileOption,
+  type ProfileReport,
+} from './profiles.js';
+import {
+  DEFAULT_THRESHOLD,
+  fitFormattedOutput,
+  fitSmartOutput,
+  formatBudgetLine,
+  nextBudgetThreshold,
+  type BudgetReport,
+} from './budget.js';
+import { loadTokenizer, type TokenizerName } from './tokenizer.js';
+import {
+  applyRecordSeverities,
+  messageOf,
+  RecordCollector,
+  type LogRecord,
+  type NdjsonMapping,
+} from './ndjson.js';
+import {
+  MultilineGrouper,
+  StackCollector,
+  type MultilineRecord,
+  type MultilineStats,
+  type TemplateStack,
+} from './multiline.js';
+import {
+  DETECTION_SAMPLE_LINES,
+  reportInputFormat,
+  resolveLogInput,
+  type InputFormat,
+  type LogInput,
+} from './log-formats.js';
+import type { BaselineSnapshot } from '../stores/baseline-store.js';
+import { toRunTemplate, type RunTemplate } from './diff.js';
+
+/**
+ * Options for a single compression run.
+ * Mirrors the compress_logs tool arguments after defaults are applied.
+ */
+export interface CompressionOptions {
+  format: 'smart' | 'summary' | 'detailed' | 'json';
+  maxTemplates: number;
+  depth?: number;
+  threshold?: number;
+  /** Raw lines to retain per template for drill-down (0 disables) */
+  maxExamplesPerTemplate?: number;
+  /** Baseline to mark templates as known, new, or abnormal against */
+  baseline?: BaselineSnapshot;
+  /** Histogram bucket size for template timelines */
+  timeBucketMs?: number;
+  /** Detect spikes, onsets, and cessations from template timelines */
+  detectAnomalies?: boolean;
+  /** Fit the text output to this many tokens (budget mode) */
+  maxOutputTokens?: number;
+  /** Tokenizer for budget mode (default: DEFAULT_TOKENIZER) */
+  tokenizer?: TokenizerName;
+  /** Input format; 'auto' detects it from the first lines (default: 'text', as-is) */
+  inputFormat?: InputFormat;
+  /** Field mapping for NDJSON records, including JSON inside container logs */
+  ndjson?: NdjsonMapping;
+  /** Group stack traces and other continuation lines with the line they follow */
+  multiline?: boolean;
+  /** Source map files for rewriting minified JavaScript frames (already access-checked) */
+  sourceMaps?: string[];
+  /** Rule profile; 'auto' uses the one suggested by the input (default: 'browser') */
+  profile?: ProfileOption;
+  /** Classification rule changes from the config file and the call (already validated) */
+  classification?: ClassificationConfig;
+}
+
+/**
+ * Output of a compression run: formatted text plus structured content.
+ * Processing time is added by the caller (async tasks only).
+ */
+export interface CompressionOutput {
+  text: string;
+  structuredContent: Omit<TaskResult['structuredContent'], 'processingTimeMs'>;
+  examples: TemplateExamples;
+  /** Every template, beyond max_templates and budget trimming */
+  runTemplates: RunTemplate[];
+}
+
+/**
+ * Enrich a template with additional diagnostic fields.
+ */
+export function enrichTemplate(
+  t: Template,
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+) {
+  const firstSample = t.sampleVariables[0] || [];
+  const numericRange = extractNumericRange(t.sampleVariables);
+
+  return {
+    id: t.id,
+    pattern: t.pattern,
+    occurrences: t.occurrences,
+    severity: t.severity,
+    isStackFrame: t.isStackFrame,
+    // New enriched fields
+    hydratedExample: hydratePattern(t.pattern, firstSample),
+    isCritical: isCritical(t, rules),
+    isExpectedFailure: isExpectedFailure(t, rules),
+    isPerformanceViolation: isPerformanceViolation(t, rules),
+    // URL samples
+    urlSamples: t.urlSamples,
+    fullUrlSamples: t.fullUrlSamples || [],
+    // New extraction fields
+    statusCodeSamples: t.statusCodeSamples || [],
+    correlationIdSamples: t.correlationIdSamples || [],
+    durationSamples: t.durationSamples || [],
+    // Numeric range if applicable
+    numericRange: numericRange
+      ? {
+          min: numericRange.min,
+          max: numericRange.max,
+          avg: numericRange.avg,
+          unit: numericRange.unit,
+        }
+      : null,
+    // Sample variables
+    sampleVariables: t.sampleVariables,
+    // Temporal info
+    firstSeen: t.firstSeen,
+    lastSeen: t.lastSeen,
+  };
+}
+
+/**
+ * Generate summary counts for structured content.
+ */
+export function generateSummary(
+  templates: Template[],
+  rules: ClassificationRules = DEFAULT_CLASSIFICATION_RULES
+) {
+  const categories = categorizeTemplates(templates, rules);
+
+  return {
+    critical: categories.critical.length,
+    userImpactingErrors: categories.userImpactingErrors.length,
+    expectedFailures: categories.expectedFailures.length,
+    performanceViolations: categories.performanceViolations.length,
+    otherWarnings: categories.otherWarnings.length,
+    infoPatterns: categories.info.length,
+    stackTracePatterns: categories.stackFrames.length,
+  };
+}
+
+/**
+ * Progress for the ingestion phase. Line totals aren't known up front when
+ * streaming, so percent is estimated from characters read vs. source size
+ * and capped at 90 to leave room for finalizing.
+ */
+function ingestProgress(processedLines: number, processedChars: number, totalBytes: number): TaskProgress {
+  const percent = totalBytes > 0 ? Math.min(90, Math.round((processedChars / totalBytes) * 90)) : 0;
+
+  return {
+    percent,
+    statusMessage: `Processing ${processedLines.toLocaleString()} lines`,
+    currentPhase: 'clustering',
+    processedLines,
+  };
+}
+
+/**
+ * Resolve the input format and the rule profile from the first lines of
+ * the source.
+ */
+async function resolveInput(
+  source: LogSource,
+  options: CompressionOptions
+): Promise<{ input: LogInput | undefined; profile: ProfileReport }> {
+  const { inputFormat = 'text' } = options;
+
+  const sample: string[] = [];
+  for await (const line of readSourceLines(source)) {
+    if (!line.trim()) continue;
+    sample.push(line);
+    if (sample.length >= DETECTION_SAMPLE_LINES) break;
+  }
+
+  const input = resolveLogInput(inputFormat, sample, options.ndjson);
+  const profile = resolveProfile(options.profile, suggestProfile(input, sample));
+  return { input, profile };
+}
+
+/**
+ * Stream a source into a new Drain instance.
+ */
+async function clusterSource(
+  source: LogSource,
+  options: CompressionOptions,
+  input: LogInput | undefined,
+  sourceMaps: SourceMapResolver | undefined,
+  threshold: number | undefined,
+  onProgress?: (progress: TaskProgress) => void
+): Promise<ReturnType<typeof createDrain>> {
+  const { depth } = options;
+  const drain = createDrain({
+    ...(depth !== undefined && { depth }),
+    ...(threshold !== undefined && { simThreshold: threshold }),
+  });
+
+  const totalBytes = onProgress ? await getSourceSize(source) : 0;
+  const grouper = options.multiline ? new MultilineGrouper<{ message: string }>() : undefined;
+  let batch: string[] = [];
+  let processedLines = 0;
+  let processedChars = 0;
+
+  for await (const line of readSourceLines(source)) {
+    processedChars += line.length + 1;
+    if (!line.trim()) continue;
+
+    const parsed = input ? messageOf(line, input.parse) : line;
+    const message = sourceMaps ? sourceMaps.resolveFrame(parsed) : parsed;
+    if (grouper) {
+      // Drain sees a multi-line record once, when its last line has been read
+      const record = grouper.add({ message });
+      if (!record) continue;
+      batch.push(record.message);
+    } else {
+      batch.push(message);
+    }
+    if (batch.length >= INGEST_BATCH_LINES) {
+      drain.addLogLines(batch);
+      processedLines += batch.length;
+      batch = [];
+      onProgress?.(ingestProgress(processedLines, processedChars, totalBytes));
+    }
+  }
+  const last = grouper?.flush();
+  if (last) {
+    batch.push(last.message);
+  }
+  if (batch.length > 0) {
+    drain.addLogLines(batch);
+    processedLines += batch.length;
+  }
+
+  onProgress?.({
+    percent: 90,
+    statusMessage: `Building templates from ${processedLines.toLocaleString()} lines`,
+    currentPhase: 'finalizing',
+    processedLines,
+    totalLines: processedLines,
+  });
+
+  return drain;
+}
+
+/**
+ * A non-empty input line in the second pass.
+ */
+interface ContextLine {
+  message: string;
+  line: string;
+  lineNumber: number;
+  record?: LogRecord;
+}
+
+/**
+ * Line context collected for the returned templates.
+ */
+interface LineContext {
+  examples: TemplateExamples;
+  timelines: Timelines;
+  records?: RecordCollector;
+  stacks?: Record<string, TemplateStack>;
+  multiline?: MultilineStats;
+  sourceMaps?: SourceMapStats;
+}
+
+/**
+ * Second pass: map lines back to templates to retain raw examples,
+ * timestamps, stacks, and (for structured formats) levels and attributes
+ * for the templates we return.
+ */
+async function collectLineContext(
+  source: LogSource,
+  templates: Template[],
+  retainedIds: Set<string>,
+  options: CompressionOptions,
+  input: LogInput | undefined,
+  sourceMaps: SourceMapResolver | undefined
+): Promise<LineContext> {
+  const matchTemplate = createTemplateMatcher(templates);
+  const exampleCollector = new ExampleCollector(retainedIds, options.maxExamplesPerTemplate);
+  const timelineCollector = new TimelineCollector(options.timeBucketMs);
+  // Plain text records carry no levels or attributes
+  const recordCollector =
+    input && input.format !== 'text' ? new RecordCollector() : undefined;
+  const grouper = options.multiline ? new MultilineGrouper<ContextLine>() : undefined;
+  const stackCollector = grouper ? new StackCollector() : undefined;
+  let lineNumber = 0;
+  let resolvedFrames = 0;
+
+  const addRecord = ({ head, message, continuation }: MultilineRecord<ContextLine>) => {
+    const id = matchTemplate(message);
+    const retainedId = id !== undefined && retainedIds.has(id) ? id : undefined;
+    if (retainedId !== undefined) {
+      exampleCollector.add(retainedId, head.lineNumber, head.line);
+      stackCollector?.add(retainedId, continuation.map((c) => c.message));
+    }
+    timelineCollector.add(head.line, retainedId, head.record?.timestamp);
+    recordCollector?.add(retainedId, head.record);
+  };
+
+  for await (const line of readSourceLines(source)) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    const record = input?.parse(line);
+    recordCollector?.count(record);
+    let message = record?.message ?? line;
+    if (sourceMaps) {
+      const resolved = sourceMaps.resolveFrame(message);
+      if (resolved !== message) resolvedFrames++;
+      message = resolved;
+    }
+    const item = { message, line, lineNumber, record };
+    const completed = grouper
+      ? grouper.add(item)
+      : { head: item, message: item.message, continuation: [] };
+    if (completed) addRecord(completed);
+
+    // Levels, attributes, stacks, and resolved frame counts need every record
+    if (
+      exampleCollector.done &&
+      !timelineCollector.active &&
+      !recordCollector &&
+      !stackCollector &&
+      !sourceMaps
+    ) {
+      break;
+    }
+  }
+  const last = grouper?.flush();
+  if (last) addRecord(last);
+
+  return {
+    examples: exampleCollector.examples,
+    timelines: timelineCollector.result(),
+    records: recordCollector,
+    stacks: stackCollector?.result(),
+    multiline: grouper?.stats(),
+    ...(sourceMaps && { sourceMaps: { maps: sourceMaps.size, resolvedFrames } }),
+  };
+}
+
+/**
+ * Run the full compression pipeline: Drain clustering, optional smart
+ * formatting, and template enrichment.
+ *
+ * Lines are streamed into Drain in batches, so peak memory tracks the
+ * template set rather than the input (file sources are never loaded whole).
+ * Runs on the main thread for small inputs or inside a worker thread.
+ *
+ * With maxOutputTokens set, output is trimmed to fit; if trimming alone
+ * isn't enough, the input is re-clustered at a lower threshold.
+ */
+export async function runCompression(
+  source: LogSource,
+  options: CompressionOptions,
+  onProgress?: (progress: TaskProgress) => void
+): Promise<CompressionOutput> {
+  const { format, maxTemplates, baseline, maxOutputTokens } = options;
+
+  // 'smart' format is MCP-specific; internally use 'detailed' from logpare
+  // and post-process with formatSmart() for LLM-optimized output
+  const internalFormat = format === 'smart' ? 'detailed' : format;
+
+  const tokenizer =
+    maxOutputTokens !== undefined ? await loadTokenizer(options.tokenizer) : undefined;
+  let threshold = options.threshold;
+  const thresholdAdjustments: string[] = [];
+
+  const { input, profile } = await resolveInput(source, options);
+  const sourceMaps = options.sourceMaps ? await loadSourceMaps(options.sourceMaps) : undefined;
+  const classification = compileClassificationRules(options.classification, profile.profile);
+
+  for (;;) {
+    // Only the first clustering reports progress; re-runs would move it backwards
+    const drain = await clusterSource(
+      source,
+      options,
+      input,
+      sourceMaps,
+      threshold,
+      thresholdAdjustments.length === 0 ? onProgress : undefined
+    );
+
+    const result = drain.getResult(internalFormat, maxTemplates);
+    const limitedIds = new Set<string>(result.templates.slice(0, maxTemplates).map((t) => t.id));
+
+    const { examples, timelines, records, stacks, multiline, sourceMaps: sourceMapStats } =
+      await collectLineContext(source, result.templates, limitedIds, options, input, sourceMaps);
+
+    // Record levels override severities inferred from the message text
+    const templates = records ? applyRecordSeverities(result.templates, records) : result.templates;
+    const limitedTemplates = templates.slice(0, maxTemplates);
+    const attributes = records?.attributes();
+    const inputFormat = reportInputFormat(input, records?.stats());
+
+    const comparison = baseline
+      ? compareToBaseline(templates, result.stats.inputLines, baseline)
+      : undefined;
+
+    const anomalies = options.detectAnomalies
+      ? detectAnomalies(limitedTemplates, timelines)
+      : undefined;
+
+    const issues = groupIssues(limitedTemplates, stacks);
+
+    const smartOptions: SmartFormatOptions = {
+      baseline: comparison,
+      timelines,
+      anomalies,
+      attributes,
+      inputFormat,
+      stacks,
+      multiline,
+      issues,
+      sourceMaps: sourceMapStats,
+      classification,
+      profile,
+    };
+
+    let text: string;
+    let budget: BudgetReport | undefined;
+
+    if (maxOutputTokens === undefined || !tokenizer) {
+      // Apply smart formatting if requested
+      text =
+        format === 'smart'
+          ? formatSmart(templates, result.stats, smartOptions)
+          : result.formatted;
+    } else {
+      const fitted =
+        format === 'smart'
+          ? fitSmartOutput(
+              templates,
+              maxOutputTokens,
+              tokenizer,
+              (kept, limits) => formatSmart(kept, result.stats, { ...smartOptions, limits }),
+              classification
+            )
+          : fitFormattedOutput(limitedTemplates, maxOutputTokens, tokenizer, (count) =>
+              count === limitedTemplates.length
+                ? result.formatted
+                : drain.getResult(internalFormat, count).formatted
+            );
+
+      const lowerThreshold = nextBudgetThreshold(threshold ?? DEFAULT_THRESHOLD);
+      if (!fitted.fits && lowerThreshold !== undefined) {
+        threshold = lowerThreshold;
+        thresholdAdjustments.push(`lowered threshold to ${lowerThreshold}`);
+        continue;
+      }
+
+      // Only the text is trimmed; structured content keeps every template
+      const fittedIds = new Set(fitted.templates.map((t) => t.id));
+      budget = {
+        maxOutputTokens,
+        tokenizer: tokenizer.name,
+        outputTokens: tokenizer.count(fitted.text),
+        fits: fitted.fits,
+        threshold: threshold ?? DEFAULT_THRESHOLD,
+        templates: limitedTemplates.filter((t) => fittedIds.has(t.id)).length,
+        adjustments: [...thresholdAdjustments, ...fitted.adjustments],
+      };
+      text = `${fitted.text}\n${formatBudgetLine(budget)}`;
+    }
+
+    return {
+      text,
+      examples,
+      runTemplates: templates.map(toRunTemplate),
+      structuredContent: {
+        compressionRatio: result.stats.compressionRatio,
+        inputLines: result.stats.inputLines,
+        uniqueTemplates: result.stats.uniqueTemplates,
+        estimatedTokenReduction: result.stats.estimatedTokenReduction,
+        summary: generateSummary(templates, classification),
+        ...(anomalies && { anomalies }),
+        templates: limitedTemplates.map((t) => ({
+          ...enrichTemplate(t, classification),
+          ...(comparison && { baseline: comparison.statuses[t.id] }),
+          ...(timelines.templates[t.id] && { timeline: timelines.templates[t.id] }),
+          ...(attributes?.[t.id] && { attributes: attributes[t.id] }),
+          ...(stacks?.[t.id] && { stack: stacks[t.id] }),
+        })),
+        issues,
+        ...(timelines.range && {
+          timeRange: { ...timelines.range, bucketMs: timelines.bucketMs },
+        }),
+        ...(comparison && {
+          baseline: { name: comparison.name, ...comparison.counts },
+        }),
+        ...(budget && { budget }),
+        inputFormat,
+        profile,
+        ...(multiline && { multiline }),
+        ...(sourceMapStats && { sourceMaps: sourceMapStats }),
+      },
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCompression, type CompressionOptions } from './compress.js';
+import { diffRuns, profileFromOutput, profileFromTaskResult, type RunProfile } from './diff.js';
+
+const options: CompressionOptions = { format: 'json', maxTemplates: 2 };
+
+/** Syslog lines, so the prefix differs on every line and only the message clusters */
+function syslogRun(extra: string[] = []): string {
+  const lines: string[] = [];
+  for (let n = 0; n < 20; n++) {
+    const time = `10:00:${String(n).padStart(2, '0')}`;
+    lines.push(`Jan 12 ${time} web01 api[${1000 + n}]: handled request ${n}`);
+    lines.push(`Jan 12 ${time} web01 worker[${2000 + n}]: processed job ${n}`);
+    lines.push(`Jan 12 ${time} web01 cache[${3000 + n}]: evicted key ${n}`);
+  }
+  return [...lines, ...extra].join('\n');
+}
+
+async function rawProfile(logs: string): Promise<RunProfile> {
+  return profileFromOutput(await runCompression({ type: 'text', logs }, options));
+}
+
+async function taskProfile(logs: string): Promise<RunProfile> {
+  const output = await runCompression({ type: 'text', logs }, options);
+  return profileFromTaskResult('before', {
+    content: [],
+    structuredContent: { ...output.structuredContent, processingTimeMs: 0 },
+    runTemplates: output.runTemplates,
+  });
+}
+
+test('raw logs and a task of the same run have no differences', async () => {
+  const before = await taskProfile(syslogRun());
+  const after = await rawProfile(syslogRun());
+
+  const diff = diffRuns(before, after, { shiftThreshold: 2 });
+  assert.equal(diff.appeared.length, 0);
+  assert.equal(diff.disappeared.length, 0);
+  assert.equal(diff.shifted.length, 0);
+  assert.equal(diff.unchanged, before.templates.length);
+});
+
+test('a new error in the later run is reported as appeared', async () => {
+  const before = await taskProfile(syslogRun());
+  const after = await rawProfile(
+    syslogRun(['Jan 12 10:01:00 web01 api[4242]: ERROR connection refused to db01'])
+  );
+
+  const diff = diffRuns(before, after, { shiftThreshold: 2 });
+  assert.equal(diff.appeared.length, 1);
+  assert.match(diff.appeared[0].pattern, /connection refused/);
+  assert.equal(diff.disappeared.length, 0);
+});
@@ -0,0 +1,272 @@
+import { createDrain, type Template } from 'logpare';
+import type { TaskResult } from '../stores/task-store.js';
+import type { ClassificationRules } from './classification.js';
+import type { CompressionOutput } from './compress.js';
+import { hydratePattern, isExpectedFailure } from '../formats/smart.js';
+import { createTemplateMatcher } from './examples.js';
+
+/**
+ * Upper bound on templates per run re-clustered into the shared set (the
+ * most frequent); the rest are compared by their own pattern
+ */
+const MAX_RUN_TEMPLATES = 1000;
+
+/** Minimum absolute occurrence change for a shift to be reported */
+const MIN_SHIFT_OCCURRENCES = 5;
+
+type Severity = Template['severity'];
+
+/**
+ * A template from one run, with a representative message (the line
+ * without its format prefix) used to place it in the shared template set.
+ */
+export interface RunTemplate {
+  pattern: string;
+  occurrences: number;
+  severity: Severity;
+  isStackFrame: boolean;
+  urlSamples: string[];
+  fullUrlSamples: string[];
+  sampleLine: string;
+}
+
+/**
+ * One side of a diff: the templates of a run plus its size.
+ */
+export interface RunProfile {
+  /** Human-readable origin ('raw logs' or 'task <id>') */
+  source: string;
+  inputLines: number;
+  templates: RunTemplate[];
+}
+
+/**
+ * A shared template's occurrences in one run.
+ */
+export interface RunOccurrence {
+  occurrences: number;
+  /** Occurrences per input line, so runs of different lengths compare fairly */
+  rate: number;
+  severity: Severity;
+}
+
+/**
+ * A template in the shared set, with its occurrences in each run.
+ */
+export interface DiffEntry {
+  pattern: string;
+  severity: Severity;
+  isStackFrame: boolean;
+  isExpectedFailure: boolean;
+  urlSamples: string[];
+  fullUrlSamples: string[];
+  before: RunOccurrence | null;
+  after: RunOccurrence | null;
+  /** after.rate / before.rate (null unless the template is in both runs) */
+  changeRatio: number | null;
+  severityChanged: boolean;
+}
+
+export interface DiffResult {
+  before: Omit<RunProfile, 'templates'> & { templates: number };
+  after: Omit<RunProfile, 'templates'> & { templates: number };
+  sharedTemplates: number;
+  appeared: DiffEntry[];
+  disappeared: DiffEntry[];
+  shifted: DiffEntry[];
+  unchanged: number;
+}
+
+export interface DiffOptions {
+  /** Minimum rate change (either direction) that counts as a shift */
+  shiftThreshold: number;
+  /** Similarity threshold for the shared template set */
+  threshold?: number;
+  /** Rules that mark errors as expected failures */
+  classification?: ClassificationRules;
+}
+
+const SEVERITY_RANK: Record<string, number> = { error: 3, warning: 2, info: 1 };
+
+function severityRank(severity: Severity): number {
+  return SEVERITY_RANK[severity] ?? 0;
+}
+
+/**
+ * Representative lines of a run's most frequent templates, for the shared set.
+ */
+function representativeLines(run: RunProfile): string[] {
+  return [...run.templates]
+    .sort((a, b) => b.occurrences - a.occurrences)
+    .slice(0, MAX_RUN_TEMPLATES)
+    .map((t) => t.sampleLine);
+}
+
+/**
+ * The fields of a template that diffs and baselines keep.
+ */
+export function toRunTemplate(t: Template): RunTemplate {
+  return {
+    pattern: t.pattern,
+    occurrences: t.occurrences,
+    severity: t.severity,
+    isStackFrame: t.isStackFrame,
+    urlSamples: t.urlSamples,
+    fullUrlSamples: t.fullUrlSamples || [],
+    sampleLine: hydratePattern(t.pattern, t.sampleVariables[0] || []),
+  };
+}
+
+/**
+ * Build a run profile from a compression of raw logs, so raw logs and
+ * task results are clustered by the same pipeline.
+ */
+export function profileFromOutput(output: CompressionOutput): RunProfile {
+  return {
+    source: 'raw logs',
+    inputLines: output.structuredContent.inputLines,
+    templates: output.runTemplates,
+  };
+}
+
+/**
+ * Build a run profile from a completed task's stored result, with every
+ * template of the run. Results persisted without runTemplates only have
+ * the templates retained in structured content (max_templates).
+ */
+export function profileFromTaskResult(taskId: string, result: TaskResult): RunProfile {
+  const { inputLines, templates } = result.structuredContent;
+
+  return {
+    source: `task ${taskId}`,
+    inputLines,
+    templates: result.runTemplates ?? templates.map((t) => ({
+      pattern: t.pattern,
+      occurrences: t.occurrences,
+      severity: t.severity ?? 'info',
+      isStackFrame: t.isStackFrame ?? false,
+      urlSamples: t.urlSamples ?? [],
+      fullUrlSamples: t.fullUrlSamples ?? [],
+      // Retained examples are raw lines with their prefixes; Drain saw messages
+      sampleLine: t.hydratedExample ?? t.pattern,
+    })),
+  };
+}
+
+/**
+ * Compare two runs against a shared template set.
+ *
+ * Each run's templates are re-clustered together (one representative line
+ * per template, up to MAX_RUN_TEMPLATES per run) so near-identical
+ * templates from the two runs collapse into one shared template;
+ * occurrences are then summed per run.
+ */
+export function diffRuns(before: RunProfile, after: RunProfile, options: DiffOptions): DiffResult {
+  const drain = createDrain({
+    ...(options.threshold !== undefined && { simThreshold: options.threshold }),
+  });
+  drain.addLogLines([...representativeLines(before), ...representativeLines(after)]);
+  const shared = drain.getResult('json', MAX_RUN_TEMPLATES * 2).templates;
+  const matchTemplate = createTemplateMatcher(shared);
+  const sharedById = new Map<string, Template>(shared.map((t) => [t.id, t]));
+
+  const entries = new Map<string, DiffEntry>();
+
+  const addRun = (run: RunProfile, side: 'before' | 'after') => {
+    for (const t of run.templates) {
+      // Fall back to the run's own pattern if no shared template matches
+      const sharedId = matchTemplate(t.sampleLine);
+      const key = sharedId ?? `pattern:${t.pattern}`;
+      const pattern = sharedId ? sharedById.get(sharedId)!.pattern : t.pattern;
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          pattern,
+          severity: t.severity,
+          isStackFrame: t.isStackFrame,
+          isExpectedFailure: false,
+          urlSamples: [],
+          fullUrlSamples: [],
+          before: null,
+          after: null,
+          changeRatio: null,
+          severityChanged: false,
+        };
+        entries.set(key, entry);
+      }
+
+      entry.urlSamples.push(...t.urlSamples);
+      entry.fullUrlSamples.push(...t.fullUrlSamples);
+
+      const occurrence = entry[side] ?? { occurrences: 0, rate: 0, severity: t.severity };
+      occurrence.occurrences += t.occurrences;
+      occurrence.rate = run.inputLines > 0 ? occurrence.occurrences / run.inputLines : 0;
+      if (severityRank(t.severity) > severityRank(occurrence.severity)) {
+        occurrence.severity = t.severity;
+      }
+      entry[side] = occurrence;
+    }
+  };
+
+  addRun(before, 'before');
+  addRun(after, 'after');
+
+  const appeared: DiffEntry[] = [];
+  const disappeared: DiffEntry[] = [];
+  const shifted: DiffEntry[] = [];
+  let unchanged = 0;
+
+  for (const entry of entries.values()) {
+    // Classify by the most recent severity seen for the template
+    entry.severity = (entry.after ?? entry.before)!.severity;
+    entry.isExpectedFailure = isExpectedFailure(entry, options.classification);
+
+    if (!entry.before) {
+      appeared.push(entry);
+      continue;
+    }
+    if (!entry.after) {
+      disappeared.push(entry);
+      continue;
+    }
+
+    entry.changeRatio = entry.before.rate > 0 ? entry.after.rate / entry.before.rate : null;
+    entry.severityChanged = entry.before.severity !== entry.after.severity;
+
+    const ratio = entry.changeRatio ?? 1;
+    const magnitude = Math.max(ratio, ratio > 0 ? 1 / ratio : Infinity);
+    const delta = Math.abs(entry.after.occurrences - entry.before.occurrences);
+
+    if (
+      entry.severityChanged ||
+      (magnitude >= options.shiftThreshold && delta >= MIN_SHIFT_OCCURRENCES)
+    ) {
+      shifted.push(entry);
+    } else {
+      unchanged++;
+    }
+  }
+
+  const byOccurrences = (side: 'before' | 'after') => (a: DiffEntry, b: DiffEntry) =>
+    (b[side]?.occurrences ?? 0) - (a[side]?.occurrences ?? 0);
+
+  appeared.sort(byOccurrences('after'));
+  disappeared.sort(byOccurrences('before'));
+  // Most severe first, then largest change
+  shifted.sort(
+    (a, b) =>
+      severityRank(b.severity) - severityRank(a.severity) ||
+      Math.abs(Math.log(b.changeRatio ?? 1)) - Math.abs(Math.log(a.changeRatio ?? 1))
+  );
+
+  return {
+    before: { source: before.source, inputLines: before.inputLines, templates: before.templates.length },
+    after: { source: after.source, inputLines: after.inputLines, templates: after.templates.length },
+    sharedTemplates: entries.size,
+    appeared,
+    disappeared,
+    shifted,
+    unchanged,
+  };
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTemplateMatcher } from './examples.js';
+
+test('matches literal tokens exactly and <*> against anything', () => {
+  const match = createTemplateMatcher([
+    { id: 'conn', pattern: 'Connected to <*> in <*>ms' },
+    { id: 'user', pattern: 'user=<*> logged in' },
+  ]);
+
+  assert.equal(match('Connected to db-1 in 12ms'), 'conn');
+  assert.equal(match('  Connected   to db-1\tin 12ms  '), 'conn');
+  assert.equal(match('user=alice logged in'), 'user');
+  assert.equal(match('Connected to db-1 in 12s'), undefined);
+  assert.equal(match('user=alice logged out'), undefined);
+});
+
+test('a placeholder can span several tokens', () => {
+  const match = createTemplateMatcher([{ id: 'req', pattern: 'GET <*> 200' }]);
+
+  assert.equal(match('GET /api/items?page=2 HTTP/1.1 200'), 'req');
+  assert.equal(match('GET 200'), undefined);
+});
+
+test('prefers the most specific template', () => {
+  const match = createTemplateMatcher([
+    { id: 'generic', pattern: '<*> failed' },
+    { id: 'specific', pattern: 'Payment <*> failed' },
+  ]);
+
+  assert.equal(match('Payment 42 failed'), 'specific');
+  assert.equal(match('Upload failed'), 'generic');
+});
+
+test('rejects long non-matching lines in linear time', () => {
+  // Every segment but "b" is found, so the line fails only after a full scan
+  const pattern = Array.from({ length: 30 }, () => '<*> a').join(' ') + ' <*> b <*> end';
+  const match = createTemplateMatcher([{ id: 'slow', pattern }]);
+  const line = Array.from({ length: 5000 }, () => 'a').join(' ') + ' end';
+
+  // A backtracking matcher takes hours here; the bound only needs to tell
+  // linear from exponential, so it leaves room for slow CI machines
+  const start = performance.now();
+  assert.equal(match(line), undefined);
+  assert.ok(performance.now() - start < 2000);
+});
@@ -0,0 +1,137 @@
+import type { Template } from 'logpare';
+
+/**
+ * A raw input line that matched a template.
+ */
+export interface TemplateExample {
+  /** 1-based line number in the original input */
+  line: number;
+
+  /** Raw line text */
+  text: string;
+}
+
+/**
+ * Raw example lines retained per template ID.
+ */
+export type TemplateExamples = Record<string, TemplateExample[]>;
+
+/**
+ * Maximum raw lines retained per template (MCP_MAX_EXAMPLES_PER_TEMPLATE, default: 1000).
+ * Bounds stored result size; occurrence counts are still exact.
+ */
+export const DEFAULT_MAX_EXAMPLES_PER_TEMPLATE =
+  Number(process.env.MCP_MAX_EXAMPLES_PER_TEMPLATE) || 1000;
+
+interface TemplateMatcher {
+  id: string;
+  /** Literal text between the pattern's <*> placeholders */
+  segments: string[];
+  literalLength: number;
+}
+
+/**
+ * Trim a line and collapse whitespace runs to single spaces, so tokens
+ * separated by any whitespace compare equal.
+ */
+function normalizeWhitespace(text: string): string {
+  return text.trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Split a template pattern into the literal segments around its <*>
+ * placeholders.
+ */
+function buildMatcher(t: Pick<Template, 'id' | 'pattern'>): TemplateMatcher {
+  return {
+    id: t.id,
+    segments: normalizeWhitespace(t.pattern).split('<*>'),
+    literalLength: t.pattern.replace(/<\*>|\s+/g, '').length,
+  };
+}
+
+/**
+ * Whether a normalized line matches a pattern's segments: literal text
+ * must match exactly and <*> placeholders match anything.
+ * Each segment is placed at its first occurrence after the previous one,
+ * which is enough for wildcard-only patterns and never backtracks, so the
+ * cost stays linear in the line length however the line fails to match.
+ */
+function matchesSegments(segments: string[], line: string): boolean {
+  const first = segments[0];
+  if (segments.length === 1) return line === first;
+
+  const last = segments[segments.length - 1];
+  const end = line.length - last.length;
+  if (end < first.length || !line.startsWith(first) || !line.endsWith(last)) {
+    return false;
+  }
+
+  let position = first.length;
+  for (let i = 1; i < segments.length - 1; i++) {
+    const index = line.indexOf(segments[i], position);
+    if (index === -1 || index + segments[i].length > end) return false;
+    position = index + segments[i].length;
+  }
+  return true;
+}
+
+/**
+ * Create a function that maps a line to the ID of the template that
+ * produced it. Drain doesn't expose its line-to-cluster assignment, so
+ * lines are matched against each template's pattern, most specific
+ * template first so generic patterns don't swallow specific lines.
+ */
+export function createTemplateMatcher(
+  templates: Array<Pick<Template, 'id' | 'pattern'>>
+): (line: string) => string | undefined {
+  const matchers = templates
+    .map(buildMatcher)
+    .sort((a, b) => b.literalLength - a.literalLength);
+
+  return (line) => {
+    const normalized = normalizeWhitespace(line);
+    return matchers.find((m) => matchesSegments(m.segments, normalized))?.id;
+  };
+}
+
+/**
+ * Retains up to `maxPerTemplate` raw lines for each of `templateIds`
+ * during a pass over the input.
+ */
+export class ExampleCollector {
+  readonly examples: TemplateExamples = {};
+  private openTemplates: number;
+
+  constructor(
+    private readonly templateIds: Set<string>,
+    private readonly maxPerTemplate: number = DEFAULT_MAX_EXAMPLES_PER_TEMPLATE
+  ) {
+    for (const id of templateIds) {
+      this.examples[id] = [];
+    }
+    this.openTemplates = maxPerTemplate > 0 ? templateIds.size : 0;
+  }
+
+  /**
+   * Whether every retained template is full (no need to scan further).
+   */
+  get done(): boolean {
+    return this.openTemplates === 0;
+  }
+
+  /**
+   * Record a line that matched a template.
+   */
+  add(templateId: string, lineNumber: number, text: string): void {
+    if (!this.templateIds.has(templateId)) return;
+
+    const retained = this.examples[templateId];
+    if (retained.length >= this.maxPerTemplate) return;
+
+    retained.push({ line: lineNumber, text });
+    if (retained.length === this.maxPerTemplate) {
+      this.openTemplates--;
+    }
+  }
+}
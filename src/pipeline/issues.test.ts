@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Template } from 'logpare';
+import { groupIssues } from './issues.js';
+import type { TemplateStack } from './multiline.js';
+
+function template(
+  id: string,
+  pattern: string,
+  occurrences: number,
+  severity: Template['severity'] = 'error'
+): Template {
+  return { id, pattern, occurrences, severity, isStackFrame: false } as Template;
+}
+
+function stack(...frames: string[]): TemplateStack {
+  return { frames, occurrences: 1, distinct: 1 };
+}
+
+const USER_STACK = stack(
+  '    at Object.query (/app/node_modules/pg/lib/client.js:526:17)',
+  '    at UserService.get (/app/src/users.js:42:13)',
+  '    at handler (/app/src/routes.js:7:3)'
+);
+
+test('errors with the same type and in-app frames are one issue', () => {
+  const issues = groupIssues(
+    [
+      template('t1', 'ERROR TypeError: Cannot read properties of undefined (reading <*>)', 3),
+      template('t2', 'ERROR TypeError: user <*> has no email', 5),
+    ],
+    {
+      t1: USER_STACK,
+      // Same app frames on other lines, under a different library call
+      t2: stack(
+        '    at Pool.connect (/app/node_modules/pg-pool/index.js:45:11)',
+        '    at UserService.get (/app/src/users.js:44:9)',
+        '    at handler (/app/src/routes.js:8:3)'
+      ),
+    }
+  );
+
+  assert.equal(issues.length, 1);
+  const [issue] = issues;
+  assert.match(issue.id, /^[0-9a-f]{12}$/);
+  assert.equal(issue.exceptionType, 'TypeError');
+  assert.equal(issue.message, 'user <*> has no email');
+  assert.deepEqual(issue.frames, ['UserService:get', 'routes.js:handler']);
+  assert.equal(issue.occurrences, 8);
+  assert.deepEqual(issue.templates, ['t2', 't1']);
+});
+
+test('fingerprints are stable, and differ by type or frames', () => {
+  const run = () =>
+    groupIssues(
+      [
+        template('a', 'ERROR TypeError: boom', 2),
+        template('b', 'ERROR RangeError: boom', 2),
+        template('c', 'ERROR TypeError: boom', 1),
+      ],
+      { a: USER_STACK, b: USER_STACK, c: stack('    at other (/app/src/other.js:1:1)') }
+    );
+
+  const issues = run();
+  assert.equal(issues.length, 3);
+  assert.deepEqual(
+    issues.map((issue) => issue.id),
+    run().map((issue) => issue.id)
+  );
+});
+
+test('errors without a stack group by normalized message', () => {
+  const issues = groupIssues([
+    template('a', '2024-01-15 14:02:03 ERROR request to "api" timed out after 500ms', 4),
+    template('b', '[ERROR] request to \'db\' timed out after 1.5ms', 2),
+    template('c', 'ERROR connection reset by peer 0x1f', 1),
+  ]);
+
+  assert.deepEqual(
+    issues.map((issue) => [issue.message, issue.occurrences, issue.frames]),
+    [
+      ['request to <*> timed out after <*>ms', 6, []],
+      ['connection reset by peer <*>', 1, []],
+    ]
+  );
+  assert.equal(issues[0].exceptionType, undefined);
+});
+
+test('exception types come from the stack, and panics are "panic"', () => {
+  const issues = groupIssues(
+    [
+      template('java', 'ERROR request failed', 2),
+      template('go', 'panic: runtime error: index out of range [<*>] with length <*>', 1),
+    ],
+    {
+      java: stack(
+        'java.lang.IllegalStateException: pool closed',
+        '\tat com.example.Pool.get(Pool.java:12)',
+        '\tat java.base/java.lang.Thread.run(Thread.java:833)'
+      ),
+    }
+  );
+
+  assert.equal(issues[0].exceptionType, 'java.lang.IllegalStateException');
+  assert.deepEqual(issues[0].frames, ['com.example.Pool:get']);
+  assert.equal(issues[1].exceptionType, 'panic');
+});
+
+test('Python frames are ordered innermost call first', () => {
+  const [issue] = groupIssues([template('py', 'ValueError: bad id <*>', 1)], {
+    py: stack(
+      'Traceback (most recent call last):',
+      '  File "/app/main.py", line 9, in handle',
+      '  File "/usr/lib/python3.12/json/decoder.py", line 3, in decode',
+      '  File "/app/users.py", line 3, in load',
+      'ValueError: bad id 42'
+    ),
+  });
+
+  assert.deepEqual(issue.frames, ['users:load', 'main:handle']);
+});
+
+test('only error templates that are not stack frames become issues', () => {
+  assert.deepEqual(
+    groupIssues([
+      template('w', 'WARN slow query', 9, 'warning'),
+      template('i', 'INFO started', 9, 'info'),
+      { ...template('f', 'at handler (app.js:<*>:<*>)', 9), isStackFrame: true },
+    ]),
+    []
+  );
+});
@@ -0,0 +1,169 @@
+/**
+ * Issue grouping: error templates that share an exception type and the
+ * same top in-app frames are one problem, even when Drain split them by
+ * message text (ids, names, quoted values). Like Sentry, the fingerprint
+ * uses the frames when there is a stack and the normalized message when
+ * there isn't.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Template } from 'logpare';
+import type { TemplateStack } from './multiline.js';
+import { fileName, parseStackTrace, type StackFrame } from './stack-frames.js';
+
+/** In-app frames in a fingerprint */
+const FINGERPRINT_FRAMES = 5;
+
+// "TypeError", "java.io.IOException", "System.InvalidOperationException"
+const EXCEPTION_TYPE = /\b((?:[A-Za-z_$][\w$]*\.)*[A-Z][\w$]*(?:Error|Exception|Fault))\b/;
+
+// "panic: runtime error: ...", "thread 'main' panicked at ..."
+const PANIC = /^panic: |\bpanicked at /;
+
+// Library and runtime code, matched against a frame's file
+const LIBRARY_FILE =
+  /node_modules|^node:|^internal\/|site-packages|dist-packages|\/lib\/python\d|\/usr\/(?:local\/)?go\/src\/|\/rustc\/|\.cargo\/registry/;
+
+// Library and runtime code, matched against a frame's module
+const LIBRARY_MODULE =
+  /^(?:java|javax|jdk|sun|kotlin|kotlinx|scala|groovy|System|Microsoft)\.|^(?:runtime|reflect|sync|net\/http)$|^(?:std|core|alloc|tokio)::/;
+
+// Leading tokens of a log line that aren't part of the message
+const LINE_PREFIX_TOKEN =
+  /^(?:<\*>|[\d\-:.,/TZ[\]()]+|\[?(?:TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL|SEVERE)\]?:?)$/i;
+
+/**
+ * Error templates grouped by fingerprint.
+ */
+export interface Issue {
+  /** Fingerprint hash, stable across runs for the same problem */
+  id: string;
+  /** Exception class, when one was found in the message or stack */
+  exceptionType?: string;
+  /** Normalized message of the most frequent template */
+  message: string;
+  /** In-app frames the fingerprint was built from, innermost call first */
+  frames: string[];
+  /** Total occurrences across member templates */
+  occurrences: number;
+  /** Member template IDs, most frequent first */
+  templates: string[];
+  /** Most common stack of the most frequent member that had one */
+  stack?: TemplateStack;
+}
+
+/**
+ * Find the exception class of an error: in its message, then in the cause
+ * and exception lines of its stack. Go and Rust panics are "panic".
+ */
+function exceptionTypeOf(pattern: string, stackLines: string[]): string | undefined {
+  for (const text of [pattern, ...stackLines]) {
+    const match = text.match(EXCEPTION_TYPE);
+    if (match) return match[1];
+    if (PANIC.test(text)) return 'panic';
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a message for comparison: drop the line prefix (time, level)
+ * and the exception type, and mask quoted strings, numbers, and hex values.
+ */
+function normalizeMessage(pattern: string, exceptionType: string | undefined): string {
+  let text = pattern;
+  const typeIndex = exceptionType ? text.indexOf(exceptionType) : -1;
+  if (typeIndex >= 0) {
+    text = text.slice(typeIndex + exceptionType!.length).replace(/^:\s*/, '');
+  } else {
+    const tokens = text.split(/\s+/);
+    const start = tokens.findIndex((token) => !LINE_PREFIX_TOKEN.test(token));
+    text = start >= 0 ? tokens.slice(start).join(' ') : '';
+  }
+
+  return text
+    .replace(/"[^"]*"|'[^']*'|`[^`]*`/g, '<*>')
+    .replace(/\b0x[0-9a-f]+\b|\d+(?:\.\d+)?/gi, '<*>')
+    .replace(/<\*>(?:[\s,:./-]*<\*>)+/g, '<*>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isInAppFrame(frame: StackFrame): boolean {
+  return !(
+    (frame.file && LIBRARY_FILE.test(frame.file)) ||
+    (frame.module && LIBRARY_MODULE.test(frame.module))
+  );
+}
+
+/**
+ * A frame's identity for fingerprinting: where it is and what it calls,
+ * without line numbers, which shift with every deploy.
+ */
+function frameKey(frame: StackFrame): string | undefined {
+  const location = frame.module ?? (frame.file ? fileName(frame.file) : undefined);
+  const key = [location, frame.function].filter(Boolean).join(':');
+  return key || undefined;
+}
+
+/**
+ * Top in-app frames of a stack, innermost call first. Uses all frames
+ * when none are in-app.
+ */
+function topFrames(stackLines: string[]): string[] {
+  const frames = parseStackTrace(stackLines);
+  // Python prints the innermost call last
+  if (frames[0]?.language === 'python') frames.reverse();
+
+  const inApp = frames.filter(isInAppFrame);
+  return (inApp.length > 0 ? inApp : frames)
+    .map(frameKey)
+    .filter((key): key is string => key !== undefined)
+    .slice(0, FINGERPRINT_FRAMES);
+}
+
+/**
+ * Group error templates into issues by fingerprint: exception type plus
+ * top in-app frames, or exception type plus normalized message for errors
+ * without a stack. Issues are sorted by total occurrences.
+ */
+export function groupIssues(
+  templates: Template[],
+  stacks: Record<string, TemplateStack> = {}
+): Issue[] {
+  const issues = new Map<string, Issue>();
+
+  const errors = templates
+    .filter((t) => t.severity === 'error' && !t.isStackFrame)
+    .sort((a, b) => b.occurrences - a.occurrences);
+
+  for (const t of errors) {
+    const stack = stacks[t.id];
+    const stackLines = stack?.frames ?? [];
+    const exceptionType = exceptionTypeOf(t.pattern, stackLines);
+    const message = normalizeMessage(t.pattern, exceptionType);
+    const frames = topFrames(stackLines);
+
+    const fingerprint = [exceptionType ?? '', ...(frames.length > 0 ? frames : [message])].join(
+      '\n'
+    );
+    const issue = issues.get(fingerprint);
+    if (issue) {
+      issue.occurrences += t.occurrences;
+      issue.templates.push(t.id);
+      issue.stack ??= stack;
+      continue;
+    }
+
+    issues.set(fingerprint, {
+      id: createHash('sha256').update(fingerprint).digest('hex').slice(0, 12),
+      ...(exceptionType && { exceptionType }),
+      message,
+      frames,
+      occurrences: t.occurrences,
+      templates: [t.id],
+      ...(stack && { stack }),
+    });
+  }
+
+  return Array.from(issues.values()).sort((a, b) => b.occurrences - a.occurrences);
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRecordParser, detectLogFormat, type LogFormat } from './log-formats.js';
+import type { NdjsonMapping } from './ndjson.js';
+
+const DEFAULTS: NdjsonMapping = { messageField: 'message', levelField: 'level' };
+
+// Two lines of each format
+const SAMPLES: Record<Exclude<LogFormat, 'text'>, string[]> = {
+  docker: [
+    '{"log":"listening on :8080\\n","stream":"stdout","time":"2024-01-15T14:02:03.1Z"}',
+    '{"log":"{\\"level\\":\\"error\\",\\"message\\":\\"boom\\"}\\n","stream":"stderr","time":"2024-01-15T14:02:04Z"}',
+  ],
+  cri: [
+    '2024-01-15T14:02:03.123456789Z stdout F listening on :8080',
+    '2024-01-15T14:02:04.000000000Z stderr F {"level":"error","message":"boom"}',
+  ],
+  kubectl: ['[pod/api-7d9f8-x2x/api] listening on :8080', '[pod/api-7d9f8-x2x/sidecar] ready'],
+  journald: [
+    '{"MESSAGE":"Started nginx","PRIORITY":"6","_SYSTEMD_UNIT":"nginx.service","__REALTIME_TIMESTAMP":"1705327323000000"}',
+    '{"MESSAGE":[98,111,111,109],"PRIORITY":"3","_HOSTNAME":"web01","__REALTIME_TIMESTAMP":"1705327324000000"}',
+  ],
+  syslog: [
+    '<165>1 2024-01-15T14:02:03.003Z web01 app 1234 ID47 [sd@1 k="v"] listening',
+    '<34>Jan 15 14:02:04 web01 sshd[42]: authentication failure',
+  ],
+  access_log: [
+    '203.0.113.9 - frank [15/Jan/2024:14:02:03 +0000] "GET /a HTTP/1.1" 200 512 "-" "curl/8.4"',
+    '203.0.113.9 - - [15/Jan/2024:14:02:04 +0000] "POST /b HTTP/1.1" 503 -',
+  ],
+  chrome_console: ['14:02:03.123 app.js:10 Uncaught TypeError: x is undefined', 'VM123:45 render took 12ms'],
+  ndjson: ['{"level":"info","message":"listening"}', '{"level":"error","msg":"boom"}'],
+};
+
+test('detects each format from a sample of its lines', () => {
+  for (const [format, lines] of Object.entries(SAMPLES)) {
+    assert.equal(detectLogFormat(lines, DEFAULTS), format);
+  }
+  assert.equal(detectLogFormat(['just some text', 'more text'], DEFAULTS), 'text');
+  assert.equal(detectLogFormat(['', '  '], DEFAULTS), 'text');
+});
+
+test('a format must match at least half of the sampled lines', () => {
+  const [json] = SAMPLES.ndjson;
+  const frame = '    at handler (app.js:1:1)';
+
+  assert.equal(detectLogFormat([json, frame], DEFAULTS), 'ndjson');
+  assert.equal(detectLogFormat([json, frame, frame], DEFAULTS), 'text');
+  // Blank lines don't count against the share
+  assert.equal(detectLogFormat([json, '', '', frame], DEFAULTS), 'ndjson');
+});
+
+test('parsers strip each format\'s prefix into attributes', () => {
+  const cases: Array<[LogFormat, string, unknown]> = [
+    [
+      'docker',
+      SAMPLES.docker[1],
+      {
+        message: 'boom',
+        severity: 'error',
+        attributes: { stream: 'stderr' },
+        timestamp: Date.UTC(2024, 0, 15, 14, 2, 4),
+      },
+    ],
+    ['cri', SAMPLES.cri[0], { message: 'listening on :8080', attributes: { stream: 'stdout' } }],
+    [
+      'kubectl',
+      SAMPLES.kubectl[1],
+      { message: 'ready', attributes: { pod: 'api-7d9f8-x2x', container: 'sidecar' } },
+    ],
+    [
+      'journald',
+      SAMPLES.journald[1],
+      { message: 'boom', severity: 'error', attributes: { host: 'web01' }, timestamp: 1705327324000 },
+    ],
+    [
+      'syslog',
+      SAMPLES.syslog[0],
+      { message: 'listening', severity: 'info', attributes: { host: 'web01', app: 'app', msgid: 'ID47' } },
+    ],
+    [
+      'syslog',
+      SAMPLES.syslog[1],
+      { message: 'authentication failure', severity: 'error', attributes: { host: 'web01', app: 'sshd' } },
+    ],
+    [
+      'access_log',
+      SAMPLES.access_log[1],
+      { message: 'POST /b HTTP/1.1 503 -', severity: 'error', attributes: { client: '203.0.113.9' } },
+    ],
+    [
+      'chrome_console',
+      SAMPLES.chrome_console[1],
+      { message: 'render took 12ms', attributes: { source: 'VM123:45' } },
+    ],
+    ['text', '\u001b[31mred\u001b[0m', { message: 'red', attributes: {} }],
+  ];
+
+  for (const [format, line, expected] of cases) {
+    assert.deepEqual(createRecordParser(format, DEFAULTS)(line), expected, `${format}: ${line}`);
+  }
+  assert.equal(createRecordParser('cri', DEFAULTS)('not a cri line'), undefined);
+});
@@ -0,0 +1,345 @@
+/**
+ * Log format detection and normalization.
+ *
+ * Container runtimes, syslog, and web servers wrap each message in
+ * prefixes (timestamps, stream names, hosts, pod names, source tags) that
+ * would otherwise end up in every template. Each format's parser strips
+ * them into a LogRecord: the message Drain clusters, plus severity and
+ * attributes recovered from the prefix.
+ */
+
+import {
+  DEFAULT_LEVEL_FIELD,
+  DEFAULT_MESSAGE_FIELD,
+  normalizeLevel,
+  parseRecord,
+  type LogRecord,
+  type NdjsonMapping,
+  type RecordParser,
+  type RecordStats,
+} from './ndjson.js';
+import { parseTimestamp } from './timestamps.js';
+
+/**
+ * Supported input formats.
+ */
+export const LOG_FORMATS = {
+  ndjson: 'JSON object per line (pino, bunyan, winston, zap, structlog)',
+  docker: 'Docker json-file driver ({"log", "stream", "time"})',
+  cri: 'Kubernetes CRI container logs (<time> stdout F <message>)',
+  kubectl: 'kubectl logs --prefix ([pod/<pod>/<container>] <message>)',
+  journald: 'journalctl -o json export',
+  syslog: 'syslog, RFC 3164 or RFC 5424',
+  access_log: 'nginx/Apache access log, common or combined format',
+  chrome_console: 'Chrome DevTools console export (<file>:<line> <message>)',
+  text: 'plain text',
+} as const;
+
+export type LogFormat = keyof typeof LOG_FORMATS;
+
+/** Input format argument: a format, or 'auto' to detect one */
+export type InputFormat = 'auto' | LogFormat;
+
+export const INPUT_FORMATS = ['auto', ...Object.keys(LOG_FORMATS)] as [InputFormat, ...InputFormat[]];
+
+/** Non-empty lines sampled for detection */
+export const DETECTION_SAMPLE_LINES = 200;
+
+/** Share of sampled lines a format must match to be detected */
+const MIN_DETECTION_SHARE = 0.5;
+
+/**
+ * The format of an input and how to parse its lines.
+ */
+export interface LogInput {
+  format: LogFormat;
+  /** Whether the format was auto-detected */
+  detected: boolean;
+  /** Field mapping for NDJSON records */
+  mapping: NdjsonMapping;
+  parse: RecordParser;
+}
+
+/**
+ * How an input was read, for structured output.
+ */
+export interface InputFormatReport {
+  format: LogFormat;
+  detected: boolean;
+  /** Lines parsed as the format (absent for text) */
+  parsedLines?: number;
+  /** Lines that didn't match the format, clustered as-is */
+  unparsedLines?: number;
+  /** NDJSON field mapping (ndjson only) */
+  messageField?: string;
+  levelField?: string;
+}
+
+// CSI sequences (colours, cursor movement) and OSC sequences (titles, links)
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)/g;
+
+// 2024-01-15T14:02:03.123456789Z stdout F message
+const CRI_LINE = /^(\d{4}-\d{2}-\d{2}T\S+) (stdout|stderr) ([FP]) ?(.*)$/;
+
+// [pod/api-7d9f8-x2x/api] message
+const KUBECTL_PREFIX = /^\[pod\/([^/\]\s]+)\/([^\]\s]+)\] ?(.*)$/;
+
+// <165>1 2024-01-15T14:02:03.003Z host app 1234 ID47 [sd@1 k="v"] message
+const RFC5424 =
+  /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[(?:[^\]"\\]|\\.|"(?:[^"\\]|\\.)*")*\])+)(?: (.*))?$/;
+
+// <34>Jan 15 14:02:03 host app[123]: message
+const RFC3164 = /^(?:<(\d{1,3})>)?[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2} (\S+) ([^\s:[]+)(?:\[\d+\])?: ?(.*)$/;
+
+// 203.0.113.9 - frank [15/Jan/2024:14:02:03 +0000] "GET /a HTTP/1.1" 200 512 "ref" "agent"
+const ACCESS_LOG =
+  /^(\S+) \S+ (\S+) \[[^\]]+\] "((?:[^"\\]|\\.)*)" (\d{3}) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?/;
+
+// 14:02:03.123 VM123:45 message, main.js:120 message, (index):7 message
+const CHROME_CONSOLE =
+  /^(?:\d{2}:\d{2}:\d{2}\.\d{3} )?(VM\d+:\d+|\(index\):\d+|[\w.\-@/~]+\.(?:[cm]?js|jsx|tsx?|html?|vue|svelte)(?:\?\S*)?:\d+(?::\d+)?) (.*)$/;
+
+/**
+ * Remove ANSI colour and cursor escape sequences.
+ */
+export function stripAnsi(text: string): string {
+  return text.includes('\u001b') ? text.replace(ANSI_ESCAPE, '') : text;
+}
+
+function parseJsonObject(line: string): Record<string, unknown> | undefined {
+  if (!line.startsWith('{')) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build a record for a message unwrapped from a container envelope. JSON
+ * messages (structured app logs) are parsed with the NDJSON mapping.
+ */
+function innerRecord(
+  message: string,
+  attributes: Record<string, string>,
+  mapping: NdjsonMapping
+): LogRecord {
+  const text = stripAnsi(message);
+  const inner = text.startsWith('{') ? parseRecord(text, mapping) : undefined;
+  return inner
+    ? { ...inner, attributes: { ...attributes, ...inner.attributes } }
+    : { message: text, attributes };
+}
+
+function parseDocker(line: string, mapping: NdjsonMapping): LogRecord | undefined {
+  const entry = parseJsonObject(line);
+  if (!entry || typeof entry.log !== 'string' || typeof entry.stream !== 'string') return undefined;
+
+  const record = innerRecord(entry.log.replace(/\r?\n$/, ''), { stream: entry.stream }, mapping);
+  const timestamp = typeof entry.time === 'string' ? parseTimestamp(entry.time) : undefined;
+  return timestamp !== undefined ? { ...record, timestamp } : record;
+}
+
+function parseCri(line: string, mapping: NdjsonMapping): LogRecord | undefined {
+  const match = line.match(CRI_LINE);
+  if (!match) return undefined;
+  // Partial (P) lines are clustered on their own; the runtime splits only >16KB lines
+  return innerRecord(match[4], { stream: match[2] }, mapping);
+}
+
+function parseKubectl(line: string, mapping: NdjsonMapping): LogRecord | undefined {
+  const match = line.match(KUBECTL_PREFIX);
+  if (!match) return undefined;
+  return innerRecord(match[3], { pod: match[1], container: match[2] }, mapping);
+}
+
+function journalString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  // Non-UTF-8 or binary fields are exported as byte arrays
+  if (Array.isArray(value) && value.every((b) => typeof b === 'number')) {
+    return Buffer.from(value as number[]).toString('utf8');
+  }
+  return undefined;
+}
+
+const JOURNAL_ATTRIBUTES: Record<string, string> = {
+  _SYSTEMD_UNIT: 'unit',
+  SYSLOG_IDENTIFIER: 'identifier',
+  _HOSTNAME: 'host',
+  CONTAINER_NAME: 'container',
+};
+
+function parseJournald(line: string): LogRecord | undefined {
+  const entry = parseJsonObject(line);
+  if (!entry || !('MESSAGE' in entry) || !('__REALTIME_TIMESTAMP' in entry)) return undefined;
+
+  const attributes: Record<string, string> = {};
+  for (const [field, name] of Object.entries(JOURNAL_ATTRIBUTES)) {
+    const value = journalString(entry[field]);
+    if (value) attributes[name] = value;
+  }
+
+  // __REALTIME_TIMESTAMP is in microseconds
+  const micros = Number(entry.__REALTIME_TIMESTAMP);
+  return {
+    message: stripAnsi(journalString(entry.MESSAGE) ?? ''),
+    severity: normalizeLevel(journalString(entry.PRIORITY)),
+    attributes,
+    ...(Number.isFinite(micros) && micros > 0 && { timestamp: Math.floor(micros / 1000) }),
+  };
+}
+
+function parseSyslog(line: string): LogRecord | undefined {
+  let match = line.match(RFC5424);
+  if (match) {
+    const [, priority, , host, app, , msgid, , message = ''] = match;
+    const attributes: Record<string, string> = {};
+    if (host !== '-') attributes.host = host;
+    if (app !== '-') attributes.app = app;
+    if (msgid !== '-') attributes.msgid = msgid;
+    return {
+      message: stripAnsi(message.replace(/^\uFEFF/, '')),
+      severity: normalizeLevel(Number(priority) % 8),
+      attributes,
+    };
+  }
+
+  match = line.match(RFC3164);
+  if (match) {
+    const [, priority, host, app, message] = match;
+    return {
+      message: stripAnsi(message),
+      // Without a <PRI> prefix the level is unknown
+      severity: priority !== undefined ? normalizeLevel(Number(priority) % 8) : undefined,
+      attributes: { host, app },
+    };
+  }
+
+  return undefined;
+}
+
+function parseAccessLog(line: string): LogRecord | undefined {
+  const match = line.match(ACCESS_LOG);
+  if (!match) return undefined;
+
+  const [, client, user, request, status, bytes, referer, userAgent] = match;
+  const attributes: Record<string, string> = { client };
+  if (user !== '-') attributes.user = user;
+  if (referer && referer !== '-') attributes.referer = referer;
+  if (userAgent && userAgent !== '-') attributes.user_agent = userAgent;
+
+  const code = Number(status);
+  return {
+    message: `${request} ${status} ${bytes}`,
+    severity: code >= 500 ? 'error' : code >= 400 ? 'warning' : 'info',
+    attributes,
+  };
+}
+
+function parseChromeConsole(line: string): LogRecord | undefined {
+  const match = stripAnsi(line).match(CHROME_CONSOLE);
+  if (!match) return undefined;
+  return { message: match[2], attributes: { source: match[1] } };
+}
+
+/**
+ * Create the record parser for a format. Lines that don't match the
+ * format parse to undefined and are clustered as-is.
+ */
+export function createRecordParser(format: LogFormat, mapping: NdjsonMapping): RecordParser {
+  switch (format) {
+    case 'ndjson':
+      return (line) => parseRecord(line, mapping);
+    case 'docker':
+      return (line) => parseDocker(line, mapping);
+    case 'cri':
+      return (line) => parseCri(line, mapping);
+    case 'kubectl':
+      return (line) => parseKubectl(line, mapping);
+    case 'journald':
+      return parseJournald;
+    case 'syslog':
+      return parseSyslog;
+    case 'access_log':
+      return parseAccessLog;
+    case 'chrome_console':
+      return parseChromeConsole;
+    case 'text':
+      return (line) => ({ message: stripAnsi(line), attributes: {} });
+  }
+}
+
+// Most specific first: docker and journald lines are also NDJSON
+const DETECTION_ORDER: Array<Exclude<LogFormat, 'text'>> = [
+  'docker',
+  'journald',
+  'cri',
+  'kubectl',
+  'syslog',
+  'access_log',
+  'chrome_console',
+  'ndjson',
+];
+
+/**
+ * Detect the format of a sample of lines: the first format (in order of
+ * specificity) that parses the most lines, if that's at least half of
+ * them. Falls back to text.
+ */
+export function detectLogFormat(sample: string[], mapping: NdjsonMapping): LogFormat {
+  const lines = sample.filter((line) => line.trim());
+  if (lines.length === 0) return 'text';
+
+  let best: LogFormat = 'text';
+  let bestCount = 0;
+  for (const format of DETECTION_ORDER) {
+    const parse = createRecordParser(format, mapping);
+    const count = lines.filter((line) => parse(line) !== undefined).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  }
+
+  return bestCount >= lines.length * MIN_DETECTION_SHARE ? best : 'text';
+}
+
+/**
+ * Resolve an input format argument against the first lines of the input.
+ * Explicit 'text' means no normalization at all (returns undefined).
+ */
+export function resolveLogInput(
+  inputFormat: InputFormat,
+  sample: string[],
+  mapping: NdjsonMapping = { messageField: DEFAULT_MESSAGE_FIELD, levelField: DEFAULT_LEVEL_FIELD }
+): LogInput | undefined {
+  if (inputFormat === 'text') return undefined;
+
+  const detected = inputFormat === 'auto';
+  const format = detected ? detectLogFormat(sample, mapping) : inputFormat;
+  return { format, detected, mapping, parse: createRecordParser(format, mapping) };
+}
+
+/**
+ * Describe how an input was read. Pass the record stats if lines were
+ * collected as records.
+ */
+export function reportInputFormat(
+  input: LogInput | undefined,
+  stats: RecordStats | undefined
+): InputFormatReport {
+  if (!input) return { format: 'text', detected: false };
+
+  return {
+    format: input.format,
+    detected: input.detected,
+    ...stats,
+    ...(input.format === 'ndjson' && {
+      messageField: input.mapping.messageField,
+      levelField: input.mapping.levelField,
+    }),
+  };
+}
@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MultilineGrouper } from './multiline.js';
+
+/**
+ * Group lines (skipping blank ones, as the pipeline does) into
+ * [message, continuation line count] pairs.
+ */
+function group(lines: string[]): Array<[string, number]> {
+  const grouper = new MultilineGrouper<{ message: string }>();
+  const records: Array<[string, number]> = [];
+  const collect = (record: ReturnType<typeof grouper.flush>) => {
+    if (record) records.push([record.message, record.continuation.length]);
+  };
+  for (const message of lines) {
+    if (message.trim()) collect(grouper.add({ message }));
+  }
+  collect(grouper.flush());
+  return records;
+}
+
+test('chained Python exceptions stay one record about the last exception', () => {
+  const lines = [
+    'Traceback (most recent call last):',
+    '  File "app.py", line 3, in load',
+    '    return cache[key]',
+    "KeyError: 'user'",
+    '',
+    'During handling of the above exception, another exception occurred:',
+    '',
+    'Traceback (most recent call last):',
+    '  File "app.py", line 9, in handle',
+    '    load()',
+    'app.errors.NotFound: user 42',
+    'INFO request done',
+  ];
+
+  assert.deepEqual(group(lines), [
+    ['app.errors.NotFound: user 42', 8],
+    ['INFO request done', 0],
+  ]);
+});
+
+test('a Python traceback after a logged line is attached to it', () => {
+  const lines = [
+    'ERROR failed to load user',
+    'Traceback (most recent call last):',
+    '  File "app.py", line 3, in load',
+    'ValueError: bad id',
+    // A second traceback is a new record, not part of the first
+    'Traceback (most recent call last):',
+    '  File "app.py", line 5, in save',
+    'OSError: disk full',
+  ];
+
+  assert.deepEqual(group(lines), [
+    ['ERROR failed to load user', 3],
+    ['OSError: disk full', 2],
+  ]);
+});
+
+test('a goroutine dump is attached to the logged line before it', () => {
+  const lines = [
+    'panic: runtime error: invalid memory address or nil pointer dereference',
+    '[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x48f1a3]',
+    '',
+    'goroutine 1 [running]:',
+    'main.(*Server).handle(0xc000010000, {0x1, 0x2})',
+    '\t/app/server.go:42 +0x1d',
+    'created by main.start in goroutine 1',
+    '\t/app/main.go:10 +0x5e',
+    'exit status 2',
+    'level=info msg="restarting"',
+  ];
+
+  assert.deepEqual(group(lines), [
+    ['panic: runtime error: invalid memory address or nil pointer dereference', 7],
+    ['level=info msg="restarting"', 0],
+  ]);
+
+  // A goroutine header later in a record starts a new one, with its own frames
+  assert.deepEqual(
+    group(['ERROR stuck', '    at worker (w.js:1:1)', 'goroutine 7 [select]:', 'main.loop()']),
+    [
+      ['ERROR stuck', 1],
+      ['goroutine 7 [select]:', 1],
+    ]
+  );
+});
+
+test('a Rust panic joins its header with the message on the next line', () => {
+  const lines = [
+    "thread 'main' panicked at src/main.rs:2:5:",
+    'index out of bounds: the len is 3 but the index is 7',
+    'stack backtrace:',
+    '   0: rust_begin_unwind',
+    '             at /rustc/library/std/src/panicking.rs:645:5',
+    'note: run with `RUST_BACKTRACE=full` for a verbose backtrace.',
+    'server stopped',
+  ];
+
+  assert.deepEqual(group(lines), [
+    [
+      "thread 'main' panicked at src/main.rs:2:5: index out of bounds: the len is 3 but the index is 7",
+      5,
+    ],
+    ['server stopped', 0],
+  ]);
+
+  // Before 1.73 the message was on the header line itself
+  assert.deepEqual(
+    group(["thread 'main' panicked at 'boom', src/main.rs:2:5", 'note: run with `RUST_BACKTRACE=1`', 'next']),
+    [
+      ["thread 'main' panicked at 'boom', src/main.rs:2:5", 1],
+      ['next', 0],
+    ]
+  );
+});
+
+test('Java causes and .NET inner exceptions are continuation lines', () => {
+  const lines = [
+    'ERROR request failed',
+    'java.lang.IllegalStateException: closed',
+    '\tat com.example.Pool.get(Pool.java:12)',
+  ];
+  assert.deepEqual(group(lines), [
+    ['ERROR request failed', 0],
+    ['java.lang.IllegalStateException: closed', 1],
+  ]);
+
+  assert.deepEqual(
+    group([
+      'System.Exception: outer',
+      ' ---> System.IO.IOException: closed',
+      '   at App.Read() in App.cs:line 4',
+      '   --- End of inner exception stack trace ---',
+      'Caused by: java.io.IOException: reset',
+      '\t... 12 more',
+    ]),
+    [['System.Exception: outer', 5]]
+  );
+});
@@ -0,0 +1,301 @@
+/**
+ * Multi-line record grouping.
+ *
+ * Drain clusters lines independently, so a stack trace becomes one
+ * template per frame and the link to the error that threw it is lost.
+ * This pre-pass attaches continuation lines (JS/Java/.NET frames, Java
+ * "Caused by:" chains, .NET inner exceptions, Python tracebacks, Go panic
+ * dumps, Rust backtraces) to the line they follow. Drain clusters only that head line; the continuation lines
+ * become the record's stack.
+ */
+
+/** Continuation lines kept per record; longer traces are grouped but truncated */
+const MAX_CONTINUATION_LINES = 200;
+
+/** Frames kept in a template's stack */
+const MAX_STACK_FRAMES = 50;
+
+/** Distinct stack signatures tracked per template */
+const MAX_TRACKED_STACKS = 100;
+
+// "    at foo (app.js:10:5)", "\tat com.example.Foo.bar(Foo.java:12)"
+const AT_FRAME = /^\s+at\s/;
+
+// "\t... 12 more", "\t... 3 common frames omitted"
+const JAVA_OMITTED = /^\s+\.\.\. \d+ (?:more|common frames omitted)/;
+
+// "Caused by: java.io.IOException: closed", "\tSuppressed: ..."
+const JAVA_CAUSE = /^(?:Caused by|\s*Suppressed): /;
+
+const PYTHON_TRACEBACK = /^Traceback \(most recent call last\):/;
+
+// Separators between chained Python exceptions
+const PYTHON_CHAIN =
+  /^(?:During handling of the above exception, another exception occurred|The above exception was the direct cause of the following exception):/;
+
+// "ValueError: bad value", "KeyboardInterrupt", "app.errors.NotFound: user 42"
+const PYTHON_EXCEPTION = /^[A-Za-z_][\w.]*(?:: .*|:)?$/;
+
+// "goroutine 1 [running]:"
+const GO_GOROUTINE = /^goroutine \d+ \[[^\]]*\]:$/;
+
+// "main.(*Server).handle(0xc000010000, {0x1, 0x2})", "created by main.start in goroutine 1"
+const GO_FUNCTION = /^(?:created by )?[\w./*()[\]{}-]+(?:\(.*\))?(?: in goroutine \d+)?$/;
+
+// "[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x48f1a3]"
+const GO_SIGNAL = /^\[signal /;
+
+const GO_EXIT = /^exit status \d+$/;
+
+// " ---> System.IO.IOException: closed", "   --- End of inner exception stack trace ---"
+const DOTNET_INNER = /^\s*(?:---> |--- End of (?:inner exception )?stack trace)/;
+
+// "thread 'main' panicked at src/main.rs:2:5:" (the message follows on the next line)
+const RUST_PANIC = /^thread '[^']*' panicked at /;
+
+// "stack backtrace:", "note: run with `RUST_BACKTRACE=1` ..."
+const RUST_BACKTRACE = /^stack backtrace:$/;
+const RUST_NOTE = /^note: /;
+
+/**
+ * Language block a record's continuation lines are in. Python and Go
+ * blocks accept lines that would be ambiguous elsewhere.
+ */
+type BlockKind = 'none' | 'python' | 'python-end' | 'python-chain' | 'go' | 'rust';
+
+/**
+ * A head line with its continuation lines.
+ */
+export interface MultilineRecord<T> {
+  head: T;
+  /**
+   * Text to cluster: the head's message, the exception line of a bare
+   * Python traceback, or a Rust panic header with its message
+   */
+  message: string;
+  /** Continuation lines, in order */
+  continuation: T[];
+}
+
+/**
+ * Groups continuation lines with the line they follow during a pass over
+ * the input. Feed lines with add() and call flush() at the end; each
+ * returns the record completed by that line, if any.
+ */
+export class MultilineGrouper<T extends { message: string }> {
+  private current: MultilineRecord<T> | undefined;
+  private currentLines = 0;
+  private block: BlockKind = 'none';
+  private exception: string | undefined;
+  private panicMessage: string | undefined;
+  private groupedLines = 0;
+  private records = 0;
+
+  add(item: T): MultilineRecord<T> | undefined {
+    if (this.current && this.continues(item.message)) {
+      this.groupedLines++;
+      this.currentLines++;
+      if (this.current.continuation.length < MAX_CONTINUATION_LINES) {
+        this.current.continuation.push(item);
+      }
+      return undefined;
+    }
+
+    const completed = this.flush();
+    this.current = { head: item, message: item.message, continuation: [] };
+    this.currentLines = 0;
+    this.block = PYTHON_TRACEBACK.test(item.message)
+      ? 'python'
+      : GO_GOROUTINE.test(item.message)
+        ? 'go'
+        : RUST_PANIC.test(item.message)
+          ? 'rust'
+          : 'none';
+    return completed;
+  }
+
+  flush(): MultilineRecord<T> | undefined {
+    const completed = this.current;
+    if (completed) {
+      if (completed.continuation.length > 0) this.records++;
+      // A bare traceback is about its exception, not "Traceback (most recent call last):"
+      if (this.exception && PYTHON_TRACEBACK.test(completed.message)) {
+        completed.message = this.exception;
+      }
+      if (this.panicMessage) {
+        completed.message = `${completed.message} ${this.panicMessage}`;
+      }
+    }
+    this.current = undefined;
+    this.exception = undefined;
+    this.panicMessage = undefined;
+    return completed;
+  }
+
+  /**
+   * Records with continuation lines, and the continuation lines grouped.
+   */
+  stats(): MultilineStats {
+    return { groupedRecords: this.records, continuationLines: this.groupedLines };
+  }
+
+  private continues(message: string): boolean {
+    if (
+      AT_FRAME.test(message) ||
+      JAVA_OMITTED.test(message) ||
+      JAVA_CAUSE.test(message) ||
+      DOTNET_INNER.test(message)
+    ) {
+      return true;
+    }
+    // A traceback or goroutine dump belongs to the line just before it (a
+    // logged error, a panic); later in a record it starts a new one
+    const fresh = this.currentLines === 0;
+    if (PYTHON_TRACEBACK.test(message)) {
+      if (!fresh && this.block !== 'python-chain') return false;
+      this.block = 'python';
+      return true;
+    }
+    if (GO_GOROUTINE.test(message)) {
+      if (!fresh && this.block !== 'go') return false;
+      this.block = 'go';
+      return true;
+    }
+    if (GO_SIGNAL.test(message)) {
+      this.block = 'go';
+      return true;
+    }
+    if (RUST_BACKTRACE.test(message) && (fresh || this.block === 'rust')) {
+      this.block = 'rust';
+      return true;
+    }
+
+    switch (this.block) {
+      case 'python':
+        // Frames and source lines are indented; the exception line ends the traceback
+        if (/^\s/.test(message)) return true;
+        if (PYTHON_EXCEPTION.test(message)) {
+          this.exception = message.trim();
+          this.block = 'python-end';
+          return true;
+        }
+        return false;
+      case 'python-end':
+        if (!PYTHON_CHAIN.test(message)) return false;
+        this.block = 'python-chain';
+        return true;
+      case 'go':
+        return /^\s/.test(message) || GO_FUNCTION.test(message) || GO_EXIT.test(message);
+      case 'rust':
+        // Since Rust 1.73 the panic message is on its own line after the header
+        if (fresh && this.current!.message.endsWith(':') && !/^\s/.test(message)) {
+          this.panicMessage = message.trim();
+          return true;
+        }
+        // Backtrace frames and their "at file:line" lines are indented
+        return /^\s/.test(message) || RUST_NOTE.test(message);
+      default:
+        return false;
+    }
+  }
+}
+
+/**
+ * How many lines were grouped into multi-line records.
+ */
+export interface MultilineStats {
+  /** Records that had continuation lines */
+  groupedRecords: number;
+  /** Continuation lines attached to a record */
+  continuationLines: number;
+}
+
+/**
+ * The stack trace most often attached to a template's records.
+ */
+export interface TemplateStack {
+  /** Frames and cause lines of the most common stack, trimmed */
+  frames: string[];
+  /** Records of the template that had a stack */
+  occurrences: number;
+  /** Distinct stacks seen (counted up to 100) */
+  distinct: number;
+}
+
+/**
+ * Normalize a continuation line for comparing stacks: trim it and drop
+ * Go's per-run addresses and argument values.
+ */
+function normalizeFrame(line: string): string {
+  return line
+    .trim()
+    .replace(/ \+0x[0-9a-f]+$/, '')
+    .replace(/\((?:0x[0-9a-f]+|\{[^}]*\}|\.\.\.|, )+\)$/, '(...)');
+}
+
+/**
+ * Accumulates the stacks attached to each template's records.
+ */
+export class StackCollector {
+  private stacks: Map<string, Map<string, { count: number; frames: string[] }>> = new Map();
+  private counts: Map<string, number> = new Map();
+
+  /**
+   * Record the continuation lines of a record that matched a template.
+   */
+  add(templateId: string, continuation: string[]): void {
+    const frames = continuation
+      .filter((line) => !JAVA_OMITTED.test(line))
+      .slice(0, MAX_STACK_FRAMES)
+      .map(normalizeFrame);
+    if (frames.length === 0) return;
+
+    this.counts.set(templateId, (this.counts.get(templateId) ?? 0) + 1);
+
+    let stacks = this.stacks.get(templateId);
+    if (!stacks) {
+      stacks = new Map();
+      this.stacks.set(templateId, stacks);
+    }
+    const signature = frames.join('\n');
+    const stack = stacks.get(signature);
+    if (stack) {
+      stack.count++;
+    } else if (stacks.size < MAX_TRACKED_STACKS) {
+      stacks.set(signature, { count: 1, frames });
+    }
+  }
+
+  /**
+   * The most common stack per template ID.
+   */
+  result(): Record<string, TemplateStack> {
+    const result: Record<string, TemplateStack> = {};
+
+    for (const [templateId, stacks] of this.stacks) {
+      const top = Array.from(stacks.values()).reduce((max, s) => (s.count > max.count ? s : max));
+      result[templateId] = {
+        frames: top.frames,
+        occurrences: this.counts.get(templateId)!,
+        distinct: stacks.size,
+      };
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Group an in-memory sequence of messages and yield the text Drain should
+ * cluster for each record.
+ */
+export function* groupMessages(messages: Iterable<string>): Generator<string> {
+  const grouper = new MultilineGrouper<{ message: string }>();
+  for (const message of messages) {
+    if (!message.trim()) continue;
+    const record = grouper.add({ message });
+    if (record) yield record.message;
+  }
+  const last = grouper.flush();
+  if (last) yield last.message;
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeLevel, parseRecord, type NdjsonMapping } from './ndjson.js';
+
+const DEFAULTS: NdjsonMapping = { messageField: 'message', levelField: 'level' };
+
+test('extracts message, level, and attributes from records', () => {
+  const cases: Array<{ name: string; line: string; mapping?: NdjsonMapping; expected: unknown }> = [
+    {
+      name: 'configured fields',
+      line: '{"level":"warn","message":"slow query","db":"users","ms":812}',
+      expected: { message: 'slow query', severity: 'warning', attributes: { db: 'users', ms: '812' } },
+    },
+    {
+      name: 'pino numeric level and msg fallback',
+      line: '{"level":50,"time":1705327323123,"msg":"boom","pid":7}',
+      expected: { message: 'boom', severity: 'error', attributes: { pid: '7' } },
+    },
+    {
+      name: 'dotted paths into nested objects',
+      line: '{"log":{"level":"ERROR"},"event":{"text":"disk full"},"host":"web01"}',
+      mapping: { messageField: 'event.text', levelField: 'log.level' },
+      expected: { message: 'disk full', severity: 'error', attributes: { host: 'web01' } },
+    },
+    {
+      name: 'a literal dotted key wins over the path',
+      line: '{"log.level":"info","log":{"level":"error"},"message":"ok"}',
+      mapping: { messageField: 'message', levelField: 'log.level' },
+      expected: { message: 'ok', severity: 'info', attributes: {} },
+    },
+    {
+      name: 'explicit attribute fields, including nested ones',
+      line: '{"message":"hit","http":{"status":404},"route":"/a","ts":"x"}',
+      mapping: { ...DEFAULTS, attributeFields: ['http.status', 'ts'] },
+      expected: { message: 'hit', severity: undefined, attributes: { 'http.status': '404', ts: 'x' } },
+    },
+    {
+      name: 'no usable message keeps the raw JSON',
+      line: '  {"level":"info","data":{"a":1}}',
+      expected: { message: '{"level":"info","data":{"a":1}}', severity: 'info', attributes: {} },
+    },
+  ];
+
+  for (const { name, line, mapping, expected } of cases) {
+    assert.deepEqual(parseRecord(line, mapping ?? DEFAULTS), expected, name);
+  }
+});
+
+test('long attribute values are truncated', () => {
+  const record = parseRecord(JSON.stringify({ message: 'm', token: 'x'.repeat(200) }), DEFAULTS);
+  assert.equal(record?.attributes.token.length, 80);
+});
+
+test('lines that are not JSON objects do not parse', () => {
+  for (const line of ['plain text', '    at handler (app.js:1:1)', '[1,2]', '{"truncated":', 'null', '']) {
+    assert.equal(parseRecord(line, DEFAULTS), undefined, line);
+  }
+});
+
+test('normalizes level names and numbers', () => {
+  const cases: Array<[unknown, string | undefined]> = [
+    ['FATAL', 'error'],
+    ['crit', 'error'],
+    ['Err', 'error'],
+    [' WARNING ', 'warning'],
+    ['debug', 'info'],
+    [60, 'error'],
+    [40, 'warning'],
+    [30, 'info'],
+    ['50', 'error'],
+    [3, 'error'],
+    [4, 'warning'],
+    [6, 'info'],
+    ['', undefined],
+    [null, undefined],
+  ];
+  for (const [value, expected] of cases) {
+    assert.equal(normalizeLevel(value), expected, String(value));
+  }
+});
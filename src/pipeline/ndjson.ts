@@ -0,0 +1,338 @@
+/**
+ * NDJSON (JSON-lines) ingestion: Drain runs over one message field rather
+ * than the raw JSON, whose keys and punctuation would dominate templates.
+ * Severity comes from a level field; other fields become attributes that
+ * are summarized per template.
+ *
+ * Records, collectors, and attribute summaries here are shared with the
+ * other structured formats in log-formats.ts.
+ */
+
+import type { Template } from 'logpare';
+import { createTemplateMatcher } from './examples.js';
+import { MultilineGrouper } from './multiline.js';
+
+type Severity = Template['severity'];
+
+export const DEFAULT_MESSAGE_FIELD = 'message';
+export const DEFAULT_LEVEL_FIELD = 'level';
+
+/** Tried, in order, when a record lacks the configured message field */
+const FALLBACK_MESSAGE_FIELDS = ['message', 'msg', 'log', 'text'];
+
+/** Always-unique time fields, left out of attribute summaries */
+const TIMESTAMP_FIELDS = new Set(['time', 'timestamp', '@timestamp', 'ts', 'date', 'datetime']);
+
+/** Attribute values longer than this are truncated */
+const MAX_ATTRIBUTE_VALUE_LENGTH = 80;
+
+/** Attribute fields tracked per template */
+const MAX_ATTRIBUTE_FIELDS = 20;
+
+/** Distinct values tracked per attribute field and template */
+const MAX_TRACKED_VALUES = 1000;
+
+/** Top values reported per attribute */
+const TOP_VALUES = 5;
+
+/**
+ * Which JSON fields hold the message, level, and attributes.
+ * Field names may be dotted paths into nested objects (e.g. "log.level").
+ */
+export interface NdjsonMapping {
+  messageField: string;
+  levelField: string;
+  /** Attribute fields to summarize (default: all top-level scalar fields) */
+  attributeFields?: string[];
+}
+
+/**
+ * A parsed log line: an NDJSON record, or a line of another structured
+ * format (see log-formats.ts).
+ */
+export interface LogRecord {
+  message: string;
+  severity?: Severity;
+  attributes: Record<string, string>;
+  /** Epoch milliseconds, for formats whose time isn't at the start of the line */
+  timestamp?: number;
+}
+
+/**
+ * Parses a line into a record; undefined if the line doesn't match.
+ */
+export type RecordParser = (line: string) => LogRecord | undefined;
+
+/**
+ * Top values of one attribute across a template's records.
+ */
+export interface AttributeSummary {
+  /** Distinct values seen (capped at 1000) */
+  distinct: number;
+  /** Most common values, most frequent first */
+  top: Array<{ value: string; count: number }>;
+}
+
+export type TemplateAttributes = Record<string, AttributeSummary>;
+
+/**
+ * Counts of how an input's lines were parsed.
+ */
+export interface RecordStats {
+  /** Lines parsed into records */
+  parsedLines: number;
+  /** Lines that didn't parse, clustered as raw text */
+  unparsedLines: number;
+}
+
+function getField(record: Record<string, unknown>, path: string): unknown {
+  if (path in record) return record[path];
+
+  let value: unknown = record;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Map a level value to a severity. Accepts names (ERROR, warn, fatal),
+ * pino/bunyan numbers (30 = info, 40 = warn, 50+ = error), and syslog
+ * numbers (0-3 = error, 4 = warning, 5-7 = info).
+ */
+export function normalizeLevel(value: unknown): Severity | undefined {
+  if (typeof value === 'number') {
+    if (value <= 7) return value <= 3 ? 'error' : value === 4 ? 'warning' : 'info';
+    return value >= 50 ? 'error' : value >= 40 ? 'warning' : 'info';
+  }
+  if (typeof value !== 'string' || value === '') return undefined;
+
+  const level = value.trim().toLowerCase();
+  if (/^\d+$/.test(level)) return normalizeLevel(Number(level));
+  if (/^(fatal|panic|crit(ical)?|emerg(ency)?|alert|err(or)?|severe)$/.test(level)) return 'error';
+  if (/^warn(ing)?$/.test(level)) return 'warning';
+  return 'info';
+}
+
+/**
+ * Parse an NDJSON line. Returns undefined for lines that aren't JSON
+ * objects (plain prints, stack trace continuations), which should be
+ * clustered as raw text.
+ */
+export function parseRecord(line: string, mapping: NdjsonMapping): LogRecord | undefined {
+  const trimmed = line.trimStart();
+  if (!trimmed.startsWith('{')) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return undefined;
+
+  const record = parsed as Record<string, unknown>;
+  let messageField = mapping.messageField;
+  let message = getField(record, messageField);
+  if (!isScalar(message)) {
+    messageField = FALLBACK_MESSAGE_FIELDS.find((field) => isScalar(record[field])) ?? messageField;
+    message = record[messageField];
+  }
+
+  const attributes: Record<string, string> = {};
+  const fields = mapping.attributeFields ?? Object.keys(record);
+  for (const field of fields) {
+    if (field === messageField || field === mapping.levelField) continue;
+    if (!mapping.attributeFields && TIMESTAMP_FIELDS.has(field.toLowerCase())) continue;
+
+    const value = getField(record, field);
+    if (isScalar(value)) {
+      attributes[field] = String(value).slice(0, MAX_ATTRIBUTE_VALUE_LENGTH);
+    }
+  }
+
+  return {
+    // Records without a usable message keep their raw JSON as the message
+    message: isScalar(message) ? String(message) : trimmed,
+    severity: normalizeLevel(getField(record, mapping.levelField)),
+    attributes,
+  };
+}
+
+/**
+ * The text Drain should cluster for a line: the record's message, or the
+ * raw line if it doesn't parse.
+ */
+export function messageOf(line: string, parse: RecordParser): string {
+  return parse(line)?.message ?? line;
+}
+
+/**
+ * Map lines to the text Drain should cluster (see messageOf).
+ */
+export function* iterateMessages(lines: Iterable<string>, parse: RecordParser): Generator<string> {
+  for (const line of lines) {
+    yield messageOf(line, parse);
+  }
+}
+
+const SEVERITY_RANK: Record<string, number> = { error: 3, warning: 2, info: 1 };
+
+/**
+ * Accumulates levels and attribute values per template during a pass
+ * over parsed records.
+ */
+export class RecordCollector {
+  private levels: Map<string, Map<Severity, number>> = new Map();
+  private values: Map<string, Map<string, Map<string, number>>> = new Map();
+  private parsed = 0;
+  private unparsed = 0;
+
+  /**
+   * Count a line's parse result (every line, including continuation lines).
+   */
+  count(record: LogRecord | undefined): void {
+    if (record) {
+      this.parsed++;
+    } else {
+      this.unparsed++;
+    }
+  }
+
+  /**
+   * Add a record's level and attributes to the template it matched.
+   */
+  add(templateId: string | undefined, record: LogRecord | undefined): void {
+    if (!record || templateId === undefined) return;
+
+    if (record.severity) {
+      let counts = this.levels.get(templateId);
+      if (!counts) {
+        counts = new Map();
+        this.levels.set(templateId, counts);
+      }
+      counts.set(record.severity, (counts.get(record.severity) ?? 0) + 1);
+    }
+
+    let fields = this.values.get(templateId);
+    if (!fields) {
+      fields = new Map();
+      this.values.set(templateId, fields);
+    }
+    for (const [field, value] of Object.entries(record.attributes)) {
+      let counts = fields.get(field);
+      if (!counts) {
+        if (fields.size >= MAX_ATTRIBUTE_FIELDS) continue;
+        counts = new Map();
+        fields.set(field, counts);
+      }
+      if (counts.has(value) || counts.size < MAX_TRACKED_VALUES) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Severity from the level field: the most common level among the
+   * template's records (ties go to the more severe level).
+   */
+  severity(templateId: string): Severity | undefined {
+    const counts = this.levels.get(templateId);
+    if (!counts) return undefined;
+
+    let best: Severity | undefined;
+    let bestCount = 0;
+    for (const [severity, count] of counts) {
+      if (
+        count > bestCount ||
+        (count === bestCount && (SEVERITY_RANK[severity] ?? 0) > (SEVERITY_RANK[best!] ?? 0))
+      ) {
+        best = severity;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Attribute summaries per template ID.
+   */
+  attributes(): Record<string, TemplateAttributes> {
+    const result: Record<string, TemplateAttributes> = {};
+
+    for (const [templateId, fields] of this.values) {
+      const summaries: TemplateAttributes = {};
+      for (const [field, counts] of fields) {
+        summaries[field] = {
+          distinct: counts.size,
+          top: Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_VALUES)
+            .map(([value, count]) => ({ value, count })),
+        };
+      }
+      result[templateId] = summaries;
+    }
+
+    return result;
+  }
+
+  stats(): RecordStats {
+    return {
+      parsedLines: this.parsed,
+      unparsedLines: this.unparsed,
+    };
+  }
+}
+
+/**
+ * Apply level-derived severities to templates.
+ */
+export function applyRecordSeverities(templates: Template[], collector: RecordCollector): Template[] {
+  return templates.map((t) => {
+    const severity = collector.severity(t.id);
+    return severity && severity !== t.severity ? { ...t, severity } : t;
+  });
+}
+
+/**
+ * Map each line of an in-memory input to its template and collect levels
+ * and attributes (compress_logs does this in its second pass). With
+ * `multiline`, only the head line of each multi-line record is matched.
+ */
+export function collectRecords(
+  lines: Iterable<string>,
+  templates: Template[],
+  parse: RecordParser,
+  multiline = false
+): RecordCollector {
+  const matchTemplate = createTemplateMatcher(templates);
+  const collector = new RecordCollector();
+  const grouper = multiline
+    ? new MultilineGrouper<{ message: string; record?: LogRecord }>()
+    : undefined;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const record = parse(line);
+    collector.count(record);
+
+    const message = record?.message ?? line;
+    if (!grouper) {
+      collector.add(matchTemplate(message), record);
+      continue;
+    }
+    const grouped = grouper.add({ message, record });
+    if (grouped) collector.add(matchTemplate(grouped.message), grouped.head.record);
+  }
+
+  const last = grouper?.flush();
+  if (last) collector.add(matchTemplate(last.message), last.head.record);
+
+  return collector;
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveLogInput } from './log-formats.js';
+import { resolveProfile, suggestProfile, type RuleProfile } from './profiles.js';
+
+function suggest(sample: string[]): RuleProfile | undefined {
+  return suggestProfile(resolveLogInput('auto', sample), sample);
+}
+
+test('suggests the profile whose signatures match at least 3 lines', () => {
+  const cases: Array<[RuleProfile, string[]]> = [
+    [
+      'nginx',
+      [
+        '2024/01/15 14:02:03 [error] 31#31: *1 open() "/srv/a" failed (2: No such file or directory)',
+        '2024/01/15 14:02:04 [warn] 31#31: *2 an upstream response is buffered to a temporary file',
+        '2024/01/15 14:02:05 [error] 31#31: *3 upstream timed out while reading response header',
+      ],
+    ],
+    [
+      'jvm',
+      [
+        'Exception in thread "main" java.lang.IllegalStateException: closed',
+        '\tat com.example.Pool.get(Pool.java:12)',
+        '\tat com.example.App.main(App.java:5)',
+      ],
+    ],
+    [
+      'postgres',
+      [
+        '2024-01-15 14:02:03 UTC [42] LOG:  database system is ready to accept connections',
+        '2024-01-15 14:02:04 UTC [43] ERROR:  deadlock detected',
+        '2024-01-15 14:02:04 UTC [43] DETAIL:  Process 43 waits for ShareLock on transaction 7',
+      ],
+    ],
+    [
+      'browser',
+      [
+        '[Violation] Forced reflow while executing JavaScript took 42ms',
+        'GET https://ads.example.com/p.js net::ERR_BLOCKED_BY_CLIENT',
+        'Failed to load resource: the server responded with a status of 404',
+      ],
+    ],
+  ];
+
+  for (const [profile, sample] of cases) {
+    assert.equal(suggest(sample), profile, profile);
+  }
+});
+
+test('too few matching lines fall back to the input format', () => {
+  const text = ['OOMKilled', 'CrashLoopBackOff', 'listening', 'ready', 'serving'];
+  assert.equal(suggest(text), undefined);
+
+  assert.equal(
+    suggest([
+      '2024-01-15T14:02:03.000000000Z stdout F listening on :8080',
+      '2024-01-15T14:02:04.000000000Z stdout F ready',
+    ]),
+    'kubernetes'
+  );
+  assert.equal(
+    suggest(['203.0.113.9 - - [15/Jan/2024:14:02:03 +0000] "GET / HTTP/1.1" 200 512']),
+    'nginx'
+  );
+  // A shorter sample needs every line to match
+  assert.equal(suggest(['Exception in thread "main" java.lang.Error', 'bye']), undefined);
+  assert.equal(suggest(['Exception in thread "main" java.lang.Error']), 'jvm');
+});
+
+test('signatures match messages, not container prefixes', () => {
+  const sample = [
+    '[pod/web-1/nginx] 2024/01/15 14:02:03 [error] 31#31: *1 open() "/srv/a" failed',
+    '[pod/web-1/nginx] 2024/01/15 14:02:04 [error] 31#31: *2 open() "/srv/b" failed',
+    '[pod/web-1/nginx] 2024/01/15 14:02:05 [error] 31#31: *3 open() "/srv/c" failed',
+  ];
+  assert.equal(suggest(sample), 'nginx');
+  // Without the kubectl parser the anchored nginx prefix doesn't match
+  assert.equal(suggestProfile(undefined, sample), undefined);
+});
+
+test('resolves the profile argument against the suggestion', () => {
+  assert.deepEqual(resolveProfile('auto', 'jvm'), { profile: 'jvm', auto: true });
+  assert.deepEqual(resolveProfile('auto', undefined), { profile: 'browser', auto: true });
+  assert.deepEqual(resolveProfile('nginx', 'jvm'), {
+    profile: 'nginx',
+    auto: false,
+    suggested: 'jvm',
+  });
+  assert.deepEqual(resolveProfile(undefined, 'browser'), { profile: 'browser', auto: false });
+});
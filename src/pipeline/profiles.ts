@@ -0,0 +1,229 @@
+/**
+ * Bundled classification rule packs. Each profile adjusts the default
+ * (browser console) rules for one kind of log, and can be suggested from
+ * the detected input format and the content of the first lines.
+ */
+
+import type { ClassificationConfig } from './classification.js';
+import type { LogFormat, LogInput } from './log-formats.js';
+
+export type RuleProfile = 'browser' | 'kubernetes' | 'nginx' | 'jvm' | 'postgres';
+
+/** Profile argument: a profile, or 'auto' to use the suggested one */
+export type ProfileOption = 'auto' | RuleProfile;
+
+/**
+ * A bundled rule pack.
+ */
+export interface RuleProfileDefinition {
+  description: string;
+  /** Rule changes applied to the defaults, like a config file's classification */
+  rules: ClassificationConfig;
+  /** Input formats that suggest the profile */
+  formats: LogFormat[];
+  /** Lines that suggest the profile */
+  signatures: RegExp[];
+  /** Heading label and advice for the expected failures section */
+  expectedFailures: { label: string; action: string };
+}
+
+export const RULE_PROFILES: Record<RuleProfile, RuleProfileDefinition> = {
+  browser: {
+    description: 'Browser console (the default rules)',
+    rules: {},
+    formats: ['chrome_console'],
+    signatures: [/\[Violation\]|net::ERR_|Failed to load resource/],
+    expectedFailures: {
+      label: 'Ad Blocker / Network',
+      action: 'Expected behavior for users with ad blockers. No fix needed.',
+    },
+  },
+  kubernetes: {
+    description: 'Kubernetes pods and events: crash loops and OOM kills are critical',
+    rules: {
+      criticalPatterns: [
+        'CrashLoopBackOff',
+        'OOMKilled',
+        'Back-off restarting failed container',
+        'ImagePullBackOff|ErrImagePull',
+        // Evictions
+        'The node was low on resource',
+        'Liveness probe failed',
+      ],
+      expectedFailurePatterns: [],
+      expectedFailureDomains: [],
+      performancePatterns: [
+        'throttl',
+        'Insufficient (?:cpu|memory)',
+        '(?:Memory|Disk|PID)Pressure',
+      ],
+      successPatterns: { add: ['Started container', 'Created container', 'Successfully pulled'] },
+    },
+    formats: ['cri', 'kubectl'],
+    signatures: [/CrashLoopBackOff|OOMKilled|Back-off restarting|ImagePullBackOff|\bkubelet\b/],
+    // No bundled rules; only configured ones land here
+    expectedFailures: {
+      label: 'Configured Rules',
+      action: 'Matched your expected failure rules. No fix needed.',
+    },
+  },
+  nginx: {
+    description: 'nginx error and access logs: upstream timeouts are critical',
+    rules: {
+      // Error log lines, and 504 Gateway Timeout in access logs
+      criticalPatterns: ['upstream timed out', 'no live upstreams', 'HTTP/\\S+ 504 '],
+      expectedFailurePatterns: [
+        'client (?:prematurely )?closed (?:the )?connection',
+        'SSL_do_handshake\\(\\) failed',
+      ],
+      expectedFailureDomains: [],
+      performancePatterns: [
+        'is buffered to a temporary file',
+        'worker_connections are not enough',
+      ],
+    },
+    formats: ['access_log'],
+    // Error log prefix ("2024/01/15 14:02:03 [error] 31#31: ...")
+    signatures: [
+      /^\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2} \[\w+\] \d+#\d+:/,
+      /\bupstream\b.*\bwhile\b/,
+    ],
+    expectedFailures: {
+      label: 'Client Disconnects / TLS',
+      action: 'Clients closed connections or failed TLS handshakes. No fix needed unless the rate rises.',
+    },
+  },
+  jvm: {
+    description: 'Java, Kotlin, and Scala services: GC pauses are performance violations',
+    rules: {
+      criticalPatterns: ['OutOfMemoryError', 'StackOverflowError', 'Java-level deadlock'],
+      expectedFailurePatterns: [],
+      expectedFailureDomains: [],
+      // Unified logging ("GC(12) Pause Young ...") and the older format ("[Full GC ...")
+      performancePatterns: [
+        'GC\\(\\S*\\) Pause',
+        '\\bPause (?:Young|Full|Remark|Cleanup)\\b',
+        '\\bFull GC\\b',
+        'Thread starvation or clock leap',
+      ],
+      successPatterns: { add: ['Started \\S+ in \\S+ seconds', 'started on port'] },
+    },
+    formats: [],
+    signatures: [
+      /^\s+at [\w$.]+\([\w$]+\.(?:java|kt|scala):\d+\)$/,
+      /\bGC\(\d+\) |Exception in thread "/,
+    ],
+    expectedFailures: {
+      label: 'Configured Rules',
+      action: 'Matched your expected failure rules. No fix needed.',
+    },
+  },
+  postgres: {
+    description:
+      'PostgreSQL server logs: deadlocks are critical, slow queries are performance violations',
+    rules: {
+      criticalPatterns: [
+        'deadlock detected',
+        'PANIC:',
+        'too many connections|remaining connection slots are reserved',
+        'No space left on device',
+      ],
+      // Retried by clients or requested by them
+      expectedFailurePatterns: [
+        'canceling statement due to user request',
+        'could not serialize access',
+      ],
+      expectedFailureDomains: [],
+      // log_min_duration_statement, log_lock_waits, log_temp_files
+      performancePatterns: [
+        'duration: \\S+ ms',
+        'checkpoints are occurring too frequently',
+        'still waiting for \\w+Lock',
+        'temporary file: path',
+      ],
+      successPatterns: { add: ['ready to accept connections'] },
+    },
+    formats: [],
+    // Postgres pads its level prefixes with two spaces
+    signatures: [/\b(?:LOG|ERROR|FATAL|DETAIL|STATEMENT|HINT):  /, /database system is/],
+    expectedFailures: {
+      label: 'Cancellations / Serialization',
+      action:
+        'Statements cancelled by clients, and serialization failures clients retry. No fix needed unless the rate rises.',
+    },
+  },
+};
+
+export const PROFILE_OPTIONS = ['auto', ...Object.keys(RULE_PROFILES)] as [
+  ProfileOption,
+  ...ProfileOption[],
+];
+
+/** Default profile: today's browser console rules */
+export const DEFAULT_PROFILE: RuleProfile = 'browser';
+
+/** Sampled lines that must match a profile's signatures for it to be suggested */
+const MIN_SIGNATURE_LINES = 3;
+
+/**
+ * Which profile was used, and which one the input suggests.
+ */
+export interface ProfileReport {
+  profile: RuleProfile;
+  /** Whether the profile was chosen by profile: 'auto' */
+  auto: boolean;
+  /** Profile the input suggests, when it differs from the one used */
+  suggested?: RuleProfile;
+}
+
+/**
+ * Suggest a profile for the first lines of an input: the profile whose
+ * signatures match the most messages (at least 3, or every line of a
+ * shorter sample), else the profile of the input format.
+ */
+export function suggestProfile(
+  input: LogInput | undefined,
+  sample: string[]
+): RuleProfile | undefined {
+  // Match messages, not container or syslog prefixes
+  const messages = input ? sample.map((line) => input.parse(line)?.message ?? line) : sample;
+  const minLines = Math.min(MIN_SIGNATURE_LINES, messages.length);
+  let best: RuleProfile | undefined;
+  let bestCount = 0;
+
+  for (const [name, definition] of Object.entries(RULE_PROFILES) as Array<
+    [RuleProfile, RuleProfileDefinition]
+  >) {
+    const count = messages.filter((line) =>
+      definition.signatures.some((signature) => signature.test(line))
+    ).length;
+    if (count > bestCount) {
+      best = name;
+      bestCount = count;
+    }
+  }
+  if (best && bestCount >= minLines) return best;
+
+  return input
+    ? (Object.keys(RULE_PROFILES) as RuleProfile[]).find((name) =>
+        RULE_PROFILES[name].formats.includes(input.format)
+      )
+    : undefined;
+}
+
+/**
+ * Resolve a profile argument: 'auto' uses the suggestion, falling back to
+ * the default profile.
+ */
+export function resolveProfile(
+  option: ProfileOption | undefined,
+  suggested: RuleProfile | undefined
+): ProfileReport {
+  const auto = option === 'auto';
+  const profile = auto ? (suggested ?? DEFAULT_PROFILE) : (option ?? DEFAULT_PROFILE);
+  return {
+    profile,
+    auto,
+    ...(suggested && suggested !== profile && { suggested }),
+  };
+}
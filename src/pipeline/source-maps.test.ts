@@ -0,0 +1,101 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadSourceMaps, type SourceMapResolver } from './source-maps.js';
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode a segment's relative values as Base64 VLQ.
+ */
+function vlq(values: number[]): string {
+  let text = '';
+  for (const value of values) {
+    let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+    do {
+      let digit = rest & 31;
+      rest >>>= 5;
+      if (rest > 0) digit |= 32;
+      text += BASE64_DIGITS[digit];
+    } while (rest > 0);
+  }
+  return text;
+}
+
+// Generated line 1: column 0 -> App.tsx 1:1, column 10 -> App.tsx 5:3 (renderUser),
+// column 20 -> util.ts 10:1; line 2 maps nothing
+const MAPPINGS = [vlq([0, 0, 0, 0]), vlq([10, 0, 4, 2, 0]), vlq([10, 1, 5, -2])].join(',') + ';';
+
+let dir: string;
+let resolver: SourceMapResolver;
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'logpare-maps-'));
+  const write = (name: string, content: unknown) => {
+    const path = join(dir, name);
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+    return path;
+  };
+
+  resolver = await loadSourceMaps([
+    write('bundle.map', {
+      version: 3,
+      file: 'main.3f9a1c.js',
+      sources: ['webpack://app/./src/App.tsx', 'src/util.ts'],
+      names: ['renderUser'],
+      mappings: MAPPINGS,
+    }),
+    // No "file": applies to vendor.js, with the sourceRoot prepended
+    write('vendor.js.map', {
+      version: 3,
+      sourceRoot: 'lib',
+      sources: ['./vendor.ts'],
+      mappings: vlq([0, 0, 2, 4]),
+    }),
+    write('broken.js.map', { version: 3, sources: [], mappings: '!!' }),
+    write('old.js.map', { version: 2, sources: [], mappings: '' }),
+    write('invalid.js.map', '{ not json'),
+    join(dir, 'missing.js.map'),
+  ]);
+});
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+test('skips unsupported, invalid, and missing maps', () => {
+  // broken.js.map loads; its mappings fail only when first used
+  assert.equal(resolver.size, 3);
+});
+
+test('rewrites V8 frames to the original source, line, and name', () => {
+  assert.equal(
+    resolver.resolveFrame('    at t (https://cdn.example.com/main.3f9a1c.js:1:15)'),
+    '    at renderUser (src/App.tsx:5:3)'
+  );
+  assert.equal(
+    resolver.resolveFrame('at async https://cdn.example.com/main.3f9a1c.js:1:1'),
+    'at async src/App.tsx:1:1'
+  );
+  assert.equal(resolver.resolveFrame('at vendor.js:1:1'), 'at lib/vendor.ts:3:5');
+});
+
+test('rewrites Firefox and Safari frames, keeping the minified name when unmapped', () => {
+  assert.equal(
+    resolver.resolveFrame('u.t@https://cdn.example.com/main.3f9a1c.js?v=2:1:25'),
+    'u.t@src/util.ts:10:1'
+  );
+});
+
+test('leaves other lines and unmapped positions unchanged', () => {
+  for (const line of [
+    'GET /main.3f9a1c.js 200',
+    '    at t (https://cdn.example.com/other.js:1:15)',
+    // Line 2 has no mappings, and frames without a column can't be resolved
+    '    at t (https://cdn.example.com/main.3f9a1c.js:2:5)',
+    '    at t (https://cdn.example.com/main.3f9a1c.js:1)',
+    '    at t (https://cdn.example.com/broken.js:1:1)',
+  ]) {
+    assert.equal(resolver.resolveFrame(line), line);
+  }
+});
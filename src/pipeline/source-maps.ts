@@ -0,0 +1,270 @@
+/**
+ * Source map resolution for minified JavaScript stack frames.
+ *
+ * Frames like "at t (https://cdn.example.com/main.3f9a1c.js:1:48213)" are
+ * rewritten to the original source file, line, and name before clustering,
+ * so stack templates, issues, and file activity point at the code to fix.
+ * Maps are matched to frames by the generated file's name. Source Map v3
+ * mappings are decoded here; index maps (with "sections") aren't supported.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { fileName, parseStackFrame } from './stack-frames.js';
+
+/** Larger map files are skipped */
+const MAX_SOURCE_MAP_BYTES = 50 * 1024 * 1024;
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Cheap check before parsing: a JavaScript file followed by a line number
+const SCRIPT_LOCATION = /\.[cm]?js(?:\?[^:\s)]*)?:\d/;
+
+interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * A decoded mapping: a generated column and the original position it
+ * maps to (all zero-based, as in the map).
+ */
+interface Segment {
+  column: number;
+  source: number;
+  line: number;
+  originalColumn: number;
+  name?: number;
+}
+
+/**
+ * Where a generated position came from.
+ */
+export interface OriginalPosition {
+  source: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** Original identifier at the position, when the map records one */
+  name?: string;
+}
+
+/**
+ * Counts reported for a run with source maps.
+ */
+export interface SourceMapStats {
+  /** Source maps loaded */
+  maps: number;
+  /** Input lines rewritten to original positions */
+  resolvedFrames: number;
+}
+
+/**
+ * Decode a Base64 VLQ segment into its signed values.
+ */
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of text) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit < 0) throw new Error(`invalid mapping character "${char}"`);
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const magnitude = Math.floor(value / 2);
+      values.push(value % 2 ? -magnitude : magnitude);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Decode a map's "mappings" into segments per generated line, sorted by
+ * generated column. Fields are relative to the previous segment; the
+ * generated column resets on each line.
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let source = 0;
+  let line = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  for (const group of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let column = 0;
+    for (const part of group.split(',')) {
+      if (!part) continue;
+      const values = decodeVlq(part);
+      column += values[0];
+      // One-field segments map to no source
+      if (values.length < 4) continue;
+      source += values[1];
+      line += values[2];
+      originalColumn += values[3];
+      const segment: Segment = { column, source, line, originalColumn };
+      if (values.length >= 5) {
+        name += values[4];
+        segment.name = name;
+      }
+      segments.push(segment);
+    }
+    lines.push(segments.sort((a, b) => a.column - b.column));
+  }
+
+  return lines;
+}
+
+/**
+ * Clean up a source path: apply sourceRoot and drop bundler prefixes and
+ * leading "./" ("webpack://app/./src/App.tsx" becomes "src/App.tsx").
+ */
+function sourcePath(map: RawSourceMap, index: number): string {
+  const source = map.sources[index] ?? '';
+  const root =
+    map.sourceRoot && !/^[a-z]+:/i.test(source) ? map.sourceRoot.replace(/\/?$/, '/') : '';
+  return `${root}${source.replace(/^(?:\.\/)+/, '')}`
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^(?:\.\/)+/, '');
+}
+
+/**
+ * One loaded source map. Mappings are decoded on first lookup.
+ */
+class SourceMap {
+  private lines: Segment[][] | undefined;
+
+  constructor(
+    private readonly raw: RawSourceMap,
+    private readonly path: string
+  ) {}
+
+  /**
+   * Original position of a 1-based generated line and column: the last
+   * mapping at or before the column.
+   */
+  originalPosition(line: number, column: number): OriginalPosition | undefined {
+    if (!this.lines) {
+      try {
+        this.lines = decodeMappings(this.raw.mappings);
+      } catch (error) {
+        console.error(
+          `[logpare-mcp] Ignoring source map with invalid mappings ${this.path}:`,
+          error
+        );
+        this.lines = [];
+      }
+    }
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return undefined;
+
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].column <= column - 1) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found < 0) return undefined;
+
+    const segment = segments[found];
+    const name = segment.name !== undefined ? this.raw.names?.[segment.name] : undefined;
+    return {
+      source: sourcePath(this.raw, segment.source),
+      line: segment.line + 1,
+      column: segment.originalColumn + 1,
+      ...(name && { name }),
+    };
+  }
+}
+
+/**
+ * Rewrites minified JavaScript frames with loaded source maps.
+ */
+export class SourceMapResolver {
+  constructor(private readonly maps: Map<string, SourceMap>) {}
+
+  /** Source maps loaded */
+  get size(): number {
+    return this.maps.size;
+  }
+
+  /**
+   * Rewrite a V8 ("at fn (file:1:2)") or Firefox/Safari ("fn@file:1:2")
+   * frame to its original position. Other lines, and frames without a
+   * map or a column, are returned unchanged.
+   */
+  resolveFrame(message: string): string {
+    if (this.maps.size === 0 || !SCRIPT_LOCATION.test(message)) return message;
+
+    const frame = parseStackFrame(message);
+    if (
+      frame?.language !== 'javascript' ||
+      frame.file === undefined ||
+      frame.line === undefined ||
+      frame.column === undefined
+    ) {
+      return message;
+    }
+
+    const map = this.maps.get(fileName(frame.file.replace(/[?#].*$/, '')));
+    const original = map?.originalPosition(frame.line, frame.column);
+    if (!original) return message;
+
+    const indent = message.match(/^\s*/)![0];
+    const location = `${original.source}:${original.line}:${original.column}`;
+    const name =
+      original.name ?? (frame.module ? `${frame.module}.${frame.function}` : frame.function);
+    const at = message.match(/^\s*(at (?:async )?)/)?.[1];
+    if (at) {
+      return name ? `${indent}${at}${name} (${location})` : `${indent}${at}${location}`;
+    }
+    return `${indent}${name ?? ''}@${location}`;
+  }
+}
+
+/**
+ * Load source maps from .map files. Each map applies to frames in its
+ * generated file: the map's "file" field, or the map's name without
+ * ".map". Unreadable, oversized, and invalid maps are skipped with a
+ * warning.
+ */
+export async function loadSourceMaps(paths: string[]): Promise<SourceMapResolver> {
+  const maps = new Map<string, SourceMap>();
+
+  for (const path of paths) {
+    try {
+      if ((await stat(path)).size > MAX_SOURCE_MAP_BYTES) {
+        console.error(`[logpare-mcp] Skipping source map over 50MB: ${path}`);
+        continue;
+      }
+      const raw = JSON.parse(await readFile(path, 'utf8')) as RawSourceMap;
+      if (raw.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+        console.error(`[logpare-mcp] Skipping unsupported source map: ${path}`);
+        continue;
+      }
+      const generated = raw.file ? fileName(raw.file) : basename(path).replace(/\.map$/, '');
+      maps.set(generated, new SourceMap(raw, path));
+    } catch (error) {
+      console.error(`[logpare-mcp] Skipping unreadable source map ${path}:`, error);
+    }
+  }
+
+  return new SourceMapResolver(maps);
+}
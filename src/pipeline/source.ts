@@ -0,0 +1,96 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+
+/**
+ * Input to the compression pipeline: an in-memory string (compress_logs)
+ * or files streamed from disk (compress_log_file). File sources are
+ * passed to workers as paths so the content never crosses threads.
+ */
+export type LogSource =
+  | { type: 'text'; logs: string }
+  | { type: 'files'; files: string[] };
+
+/** Lines handed to Drain per addLogLines() call */
+export const INGEST_BATCH_LINES = 10_000;
+
+/**
+ * Minimal Drain surface used for incremental ingestion.
+ */
+interface LineSink {
+  addLogLines(lines: string[]): void;
+}
+
+/**
+ * Iterate the lines of a string without splitting it into an array.
+ * Handles \n and \r\n endings; a trailing newline yields no empty line.
+ */
+export function* iterateLines(text: string): Generator<string> {
+  let start = 0;
+  while (start < text.length) {
+    let end = text.indexOf('\n', start);
+    if (end === -1) end = text.length;
+    const lineEnd = end > start && text.charCodeAt(end - 1) === 13 ? end - 1 : end;
+    yield text.slice(start, lineEnd);
+    start = end + 1;
+  }
+}
+
+/**
+ * Read the lines of a source. Files are streamed one at a time, so only
+ * the current chunk is held in memory.
+ */
+export async function* readSourceLines(source: LogSource): AsyncGenerator<string> {
+  if (source.type === 'text') {
+    yield* iterateLines(source.logs);
+    return;
+  }
+
+  for (const file of source.files) {
+    const input = createReadStream(file, { encoding: 'utf8' });
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    try {
+      yield* lines;
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+  }
+}
+
+/**
+ * Size of a source in bytes: the UTF-8 length of text, or the total size
+ * of the files.
+ */
+export async function getSourceSize(source: LogSource): Promise<number> {
+  if (source.type === 'text') {
+    return Buffer.byteLength(source.logs);
+  }
+
+  const sizes = await Promise.all(source.files.map(async (file) => (await stat(file)).size));
+  return sizes.reduce((sum, size) => sum + size, 0);
+}
+
+/**
+ * Feed non-blank lines into Drain in fixed-size batches.
+ * Returns the number of lines added.
+ */
+export function addLinesInBatches(drain: LineSink, lines: Iterable<string>): number {
+  let batch: string[] = [];
+  let count = 0;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    batch.push(line);
+    count++;
+    if (batch.length >= INGEST_BATCH_LINES) {
+      drain.addLogLines(batch);
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    drain.addLogLines(batch);
+  }
+  return count;
+}
@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  extractFileReferences,
+  parseStackFrame,
+  parseStackTrace,
+  type StackFrame,
+} from './stack-frames.js';
+
+test('parses single-line frames of each language', () => {
+  const cases: Array<[string, StackFrame]> = [
+    [
+      '    at UserService.get (/app/src/users.js:42:13)',
+      {
+        language: 'javascript',
+        file: '/app/src/users.js',
+        line: 42,
+        column: 13,
+        function: 'get',
+        module: 'UserService',
+      },
+    ],
+    [
+      'at async handler (file:///app/index.mjs:3:5)',
+      {
+        language: 'javascript',
+        file: 'file:///app/index.mjs',
+        line: 3,
+        column: 5,
+        function: 'handler',
+      },
+    ],
+    [
+      'at new Pool (pool.ts:7:1)',
+      { language: 'javascript', file: 'pool.ts', line: 7, column: 1, function: 'Pool' },
+    ],
+    ['at /app/index.js:1:2', { language: 'javascript', file: '/app/index.js', line: 1, column: 2 }],
+    [
+      'render@https://cdn.example.com/main.js:1:48213',
+      {
+        language: 'javascript',
+        file: 'https://cdn.example.com/main.js',
+        line: 1,
+        column: 48213,
+        function: 'render',
+      },
+    ],
+    [
+      '  File "/app/jobs.py", line 3, in work',
+      { language: 'python', file: '/app/jobs.py', line: 3, function: 'work', module: 'jobs' },
+    ],
+    [
+      '\tat com.example.Foo.bar(Foo.java:12)',
+      { language: 'java', file: 'Foo.java', line: 12, function: 'bar', module: 'com.example.Foo' },
+    ],
+    [
+      '\tat java.base/java.lang.Thread.run(Thread.java:833)',
+      {
+        language: 'java',
+        file: 'Thread.java',
+        line: 833,
+        function: 'run',
+        module: 'java.lang.Thread',
+      },
+    ],
+    [
+      '\tat sun.misc.Unsafe.park(Native Method)',
+      { language: 'java', function: 'park', module: 'sun.misc.Unsafe' },
+    ],
+    [
+      '   at MyApp.Services.UserService.Get(Int32 id) in C:\\src\\UserService.cs:line 42',
+      {
+        language: 'dotnet',
+        file: 'C:\\src\\UserService.cs',
+        line: 42,
+        function: 'Get',
+        module: 'MyApp.Services.UserService',
+      },
+    ],
+  ];
+
+  for (const [line, expected] of cases) {
+    assert.deepEqual(parseStackFrame(line), expected, line);
+  }
+});
+
+test('line numbers in Drain patterns are left out', () => {
+  assert.deepEqual(parseStackFrame('at handler (app.js:<*>:<*>)'), {
+    language: 'javascript',
+    file: 'app.js',
+    function: 'handler',
+  });
+  assert.deepEqual(parseStackFrame('File "jobs.py", line <*>, in work'), {
+    language: 'python',
+    file: 'jobs.py',
+    function: 'work',
+    module: 'jobs',
+  });
+});
+
+test('lines that are not frames do not parse', () => {
+  for (const line of [
+    'Caused by: java.io.IOException: closed',
+    'Traceback (most recent call last):',
+    'config.value was missing',
+    'goroutine 1 [running]:',
+    'INFO listening on :8080',
+  ]) {
+    assert.equal(parseStackFrame(line), undefined, line);
+  }
+});
+
+test('merges Go and Rust function lines with their file lines', () => {
+  assert.deepEqual(
+    parseStackTrace([
+      'goroutine 1 [running]:',
+      'main.(*Server).handle(0xc000010000, {0x1, 0x2})',
+      '\t/app/server.go:42 +0x1d',
+      'created by github.com/acme/api/pkg.Start in goroutine 1',
+      '\t/app/pkg/start.go:10 +0x5e',
+    ]),
+    [
+      {
+        language: 'go',
+        file: '/app/server.go',
+        line: 42,
+        function: '(*Server).handle',
+        module: 'main',
+      },
+      {
+        language: 'go',
+        file: '/app/pkg/start.go',
+        line: 10,
+        function: 'Start',
+        module: 'github.com/acme/api/pkg',
+      },
+    ]
+  );
+
+  assert.deepEqual(
+    parseStackTrace([
+      'stack backtrace:',
+      '   3: myapp::server::handle::h1a2b3c4d5e6f7a8b',
+      '             at ./src/server.rs:42:5',
+      '   4: std::rt::lang_start',
+    ]),
+    [
+      {
+        language: 'rust',
+        file: './src/server.rs',
+        line: 42,
+        column: 5,
+        function: 'handle',
+        module: 'myapp::server',
+      },
+      { language: 'rust', function: 'lang_start', module: 'std::rt' },
+    ]
+  );
+});
+
+test('extracts source file names from free text', () => {
+  assert.deepEqual(
+    extractFileReferences('failed in /app/src/users.js:42 called from "jobs.py" (Foo.java:12) v1.2.3'),
+    ['users.js', 'jobs.py', 'Foo.java']
+  );
+  assert.deepEqual(extractFileReferences('loaded app.json and styles.css'), []);
+});
@@ -0,0 +1,210 @@
+/**
+ * Stack frame parsing for JavaScript, Python, Java/Kotlin, Go, Rust, and
+ * .NET. Works on raw lines and on Drain patterns (line numbers may be <*>).
+ */
+
+export type FrameLanguage = 'javascript' | 'python' | 'java' | 'go' | 'rust' | 'dotnet';
+
+/**
+ * A parsed stack frame. Fields a frame doesn't carry are omitted.
+ */
+export interface StackFrame {
+  language: FrameLanguage;
+  /** Source file as written in the frame (path or file name) */
+  file?: string;
+  line?: number;
+  column?: number;
+  function?: string;
+  /** Package, namespace, class, or module the function belongs to */
+  module?: string;
+}
+
+// Source file extensions of the supported languages
+const SOURCE_EXTENSIONS = 'm?js|cjs|jsx|tsx?|mts|cts|py|java|kts?|scala|groovy|go|rs|cs|fs|vb';
+
+// Line and column numbers, or Drain's placeholder for them
+const NUM = '(\\d+|<\\*>)';
+
+// at fn (file:1:2), at async fn (file:1:2), at file:1:2, at new Foo (file:1:2)
+const JS_V8 = new RegExp(`^at (?:async )?(?:(.+?) \\()?(.+?):${NUM}(?::${NUM})?\\)?$`);
+
+// fn@https://example.com/app.js:1:2 (Firefox, Safari); the file is a URL or path
+const JS_GECKO = new RegExp(`^([^\\s@]*)@(\\S*/\\S*?):${NUM}(?::${NUM})?$`);
+
+// File "/app/jobs.py", line 3, in work
+const PYTHON = new RegExp(`^File "(.+?)", line ${NUM}(?:, in (.+))?$`);
+
+// at com.example.Foo.bar(Foo.java:12), at java.base/java.lang.Thread.run(Thread.java:833)
+const JAVA = new RegExp(
+  `^at (?:[\\w.-]+/+)?((?:[\\w$]+\\.)*[\\w$]+)\\.([\\w$<>-]+)\\(((?:[\\w$-]+\\.(?:java|kts?|scala|groovy))(?::${NUM})?|Native Method|Unknown Source)\\)$`
+);
+
+// at MyApp.Services.UserService.Get(Int32 id) in C:\src\UserService.cs:line 42
+const DOTNET = new RegExp(`^at ((?:[\\w\`<>\\[\\]]+\\.)*[\\w\`<>\\[\\]]+)\\.([\\w\`<>|]+)\\((.*?)\\)(?: in (.+):line ${NUM})?$`);
+
+// main.(*Server).handle(0xc000010000, ...), github.com/a/b/pkg.Func(...)
+const GO_FUNCTION =
+  /^(?:created by )?((?:[\w.-]+\/)*[\w-]+)\.((?:\(\*?\w+\)\.)?[\w.]+?)(?:\((?:[^()]*)\))?(?: in goroutine \d+)?$/;
+
+// /app/server.go:42 +0x1d
+const GO_FILE = new RegExp(`^(\\S+\\.go):${NUM}(?: \\+0x[0-9a-f]+)?$`);
+
+// 3: myapp::server::handle::h1a2b3c4d
+const RUST_FUNCTION = /^\d+: (\S.*?)(?:::h[0-9a-f]{16})?$/;
+
+// at ./src/server.rs:42:5
+const RUST_FILE = new RegExp(`^at (.+\\.rs):${NUM}(?::${NUM})?$`);
+
+// File name of any source file reference, e.g. /app/users.js:42, "jobs.py", (Foo.java:12)
+const FILE_REFERENCE = new RegExp(`[\\w-]+(?:\\.[\\w-]+)*\\.(?:${SOURCE_EXTENSIONS})(?![\\w-]|\\.\\w)`, 'g');
+
+function toNumber(value: string | undefined): number | undefined {
+  return value !== undefined && value !== '<*>' ? Number(value) : undefined;
+}
+
+/**
+ * Split a qualified name at its last separator into module and function.
+ */
+function splitQualified(name: string, separator: string): { module?: string; function: string } {
+  const index = name.lastIndexOf(separator);
+  return index > 0
+    ? { module: name.slice(0, index), function: name.slice(index + separator.length) }
+    : { function: name };
+}
+
+/**
+ * Build a frame, leaving out fields that weren't found.
+ */
+function frame(language: FrameLanguage, fields: Omit<StackFrame, 'language'>): StackFrame {
+  const result: StackFrame = { language, ...fields };
+  for (const key of Object.keys(result) as Array<keyof StackFrame>) {
+    if (result[key] === undefined || result[key] === '') delete result[key];
+  }
+  return result;
+}
+
+/**
+ * Get the file name of a path (forward or back slashes).
+ */
+export function fileName(path: string): string {
+  return path.slice(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+}
+
+/**
+ * Parse one stack frame line. Go and Rust print a frame over two lines
+ * (function, then file); each line parses to a partial frame, and
+ * parseStackTrace() merges them.
+ */
+export function parseStackFrame(line: string): StackFrame | undefined {
+  const text = line.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(PYTHON))) {
+    const [, file, lineNo, fn] = match;
+    return frame('python', {
+      file,
+      line: toNumber(lineNo),
+      function: fn,
+      module: fileName(file).replace(/\.py$/, ''),
+    });
+  }
+
+  if ((match = text.match(JAVA))) {
+    const [, className, method, location, lineNo] = match;
+    const file = location.includes('.') ? location.replace(/:.*$/, '') : undefined;
+    return frame('java', { file, line: toNumber(lineNo), function: method, module: className });
+  }
+
+  if ((match = text.match(RUST_FILE))) {
+    const [, file, lineNo, column] = match;
+    return frame('rust', { file, line: toNumber(lineNo), column: toNumber(column) });
+  }
+
+  if ((match = text.match(JS_V8))) {
+    const [, fn, file, lineNo, column] = match;
+    const qualified = fn ? splitQualified(fn.replace(/^new /, ''), '.') : undefined;
+    return frame('javascript', {
+      file,
+      line: toNumber(lineNo),
+      column: toNumber(column),
+      ...qualified,
+    });
+  }
+
+  if ((match = text.match(DOTNET))) {
+    const [, typeName, method, , file, lineNo] = match;
+    return frame('dotnet', { file, line: toNumber(lineNo), function: method, module: typeName });
+  }
+
+  if ((match = text.match(GO_FILE))) {
+    const [, file, lineNo] = match;
+    return frame('go', { file, line: toNumber(lineNo) });
+  }
+
+  if ((match = text.match(RUST_FUNCTION))) {
+    return frame('rust', splitQualified(match[1], '::'));
+  }
+
+  if ((match = text.match(JS_GECKO))) {
+    const [, fn, file, lineNo, column] = match;
+    return frame('javascript', {
+      file,
+      line: toNumber(lineNo),
+      column: toNumber(column),
+      ...(fn ? splitQualified(fn, '/') : {}),
+    });
+  }
+
+  // Only package-qualified calls; "foo.bar" alone is too common in messages
+  if ((match = text.match(GO_FUNCTION)) && /[/(]|^(?:created by )?main\./.test(text)) {
+    const [, pkg, fn] = match;
+    return frame('go', { function: fn, module: pkg });
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse the lines of a stack trace into frames, merging Go and Rust
+ * function lines with the file line that follows them. Lines that aren't
+ * frames (causes, headers) are skipped.
+ */
+export function parseStackTrace(lines: string[]): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of lines) {
+    const parsed = parseStackFrame(line);
+    if (!parsed) continue;
+
+    const previous = frames[frames.length - 1];
+    const isLocation = parsed.function === undefined && parsed.module === undefined;
+    if (
+      isLocation &&
+      previous &&
+      previous.language === parsed.language &&
+      previous.file === undefined &&
+      (parsed.language === 'go' || parsed.language === 'rust')
+    ) {
+      frames[frames.length - 1] = { ...previous, ...parsed };
+    } else {
+      frames.push(parsed);
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Whether a line (or pattern) is a stack frame that names a source file.
+ */
+export function isFileFrame(line: string): boolean {
+  return parseStackFrame(line)?.file !== undefined;
+}
+
+/**
+ * File names (without directories) of source files referenced in a text,
+ * in order of appearance.
+ */
+export function extractFileReferences(text: string): string[] {
+  return Array.from(text.matchAll(FILE_REFERENCE), (match) => match[0]);
+}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDuration, parseTimestamp, TimelineCollector } from './timestamps.js';
+
+const JAN_15_2024 = Date.UTC(2024, 0, 15, 20, 0, 0);
+
+test('parses ISO-8601 with and without a zone', () => {
+  assert.equal(
+    parseTimestamp('2024-01-15T14:02:03.123Z INFO started'),
+    Date.UTC(2024, 0, 15, 14, 2, 3, 123)
+  );
+  assert.equal(
+    parseTimestamp('2024-01-15 14:02:03,5 +02:00 WARN slow'),
+    Date.UTC(2024, 0, 15, 12, 2, 3, 500)
+  );
+  assert.equal(parseTimestamp('[2024-01-15 14:02:03] x'), Date.UTC(2024, 0, 15, 14, 2, 3));
+});
+
+test('parses nginx/Apache common log format', () => {
+  assert.equal(
+    parseTimestamp('10.0.0.1 - - [15/Jan/2024:14:02:03 -0500] "GET / HTTP/1.1" 200 512'),
+    Date.UTC(2024, 0, 15, 19, 2, 3)
+  );
+});
+
+test('infers the syslog year from the reference time', () => {
+  assert.equal(
+    parseTimestamp('Jan 15 14:02:03 web01 sshd[42]: accepted', JAN_15_2024),
+    Date.UTC(2024, 0, 15, 14, 2, 3)
+  );
+  assert.equal(
+    parseTimestamp('<34>Jan  2 03:04:05 web01 su: failed', JAN_15_2024),
+    Date.UTC(2024, 0, 2, 3, 4, 5)
+  );
+  // December lines read in January belong to the previous year
+  assert.equal(
+    parseTimestamp('Dec 31 23:59:59 web01 cron[1]: run', JAN_15_2024),
+    Date.UTC(2023, 11, 31, 23, 59, 59)
+  );
+});
+
+test('parses epoch milliseconds only at line start or after a time key', () => {
+  assert.equal(parseTimestamp('1705327323123 request done'), 1705327323123);
+  assert.equal(parseTimestamp('{"ts": 1705327323123, "msg": "x"}'), 1705327323123);
+  assert.equal(parseTimestamp('@timestamp=1705327323123 msg=x'), 1705327323123);
+  assert.equal(parseTimestamp('user 1705327323123 logged in'), undefined);
+  assert.equal(parseTimestamp('17053273231234 too many digits'), undefined);
+});
+
+test('dates browser console times on the reference day', () => {
+  assert.equal(
+    parseTimestamp('14:02:03.123 app.js:10 Uncaught TypeError', JAN_15_2024),
+    Date.UTC(2024, 0, 15, 14, 2, 3, 123)
+  );
+  assert.equal(parseTimestamp('no timestamp here'), undefined);
+});
+
+test('parses bucket durations', () => {
+  assert.equal(parseDuration('250ms'), 250);
+  assert.equal(parseDuration('30s'), 30_000);
+  assert.equal(parseDuration(' 5m '), 300_000);
+  assert.equal(parseDuration('1h'), 3_600_000);
+  assert.equal(parseDuration('2d'), 172_800_000);
+  assert.equal(parseDuration('0s'), undefined);
+  assert.equal(parseDuration('5x'), undefined);
+});
+
+test('lines without a timestamp take the previous line\'s', () => {
+  const collector = new TimelineCollector(60_000);
+  collector.add('2024-01-15T14:02:03Z ERROR boom', 'error');
+  collector.add('    at handler (app.js:1:1)', 'frame');
+  collector.add('2024-01-15T14:05:00Z INFO ok', 'info');
+
+  const timelines = collector.result();
+  assert.deepEqual(timelines.range, {
+    start: '2024-01-15T14:02:03.000Z',
+    end: '2024-01-15T14:05:00.000Z',
+  });
+  assert.equal(timelines.templates.frame.firstTimestamp, '2024-01-15T14:02:03.000Z');
+  assert.deepEqual(timelines.templates.info.histogram, [
+    { start: '2024-01-15T14:05:00.000Z', count: 1 },
+  ]);
+});
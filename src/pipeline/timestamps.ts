@@ -0,0 +1,247 @@
+/**
+ * Timestamp detection and per-template time histograms.
+ *
+ * Drain's firstSeen/lastSeen are line indices; this module recovers real
+ * times from the lines themselves so output can say when a pattern
+ * started and peaked.
+ */
+
+/** Default histogram bucket size (1 minute) */
+export const DEFAULT_TIME_BUCKET_MS = 60_000;
+
+/** Smallest histogram bucket size accepted from callers (1 second) */
+export const MIN_TIME_BUCKET_MS = 1000;
+
+/** Lines scanned for a timestamp before giving up on timelines */
+const DETECTION_WINDOW_LINES = 1000;
+
+/** Only the start of a line is searched (timestamps are near the front) */
+const SEARCH_PREFIX_LENGTH = 200;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 2024-01-15T14:02:03.123Z, 2024-01-15 14:02:03,123 +02:00
+const ISO_8601 =
+  /(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:[.,](\d{1,9}))?\s*(Z|[+-]\d{2}:?\d{2})?/;
+
+// [15/Jan/2024:14:02:03 +0000] (nginx/Apache common log format)
+const CLF = /\[(\d{2})\/([A-Za-z]{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2})\s*([+-]\d{4})\]/;
+
+// Jan 15 14:02:03 (syslog, optional <PRI> prefix; no year)
+const SYSLOG = /^(?:<\d+>)?([A-Za-z]{3})\s+(\d{1,2})\s(\d{2}):(\d{2}):(\d{2})/;
+
+// 1705327323123 at line start or after a ts/time/timestamp key
+const EPOCH_MILLIS = /(?:^|["']?(?:@?timestamp|ts|time)["']?\s*[:=]\s*)(1\d{12})(?!\d)/;
+
+// 14:02:03.123 at line start (browser console "Show timestamps"; no date)
+const BROWSER_CONSOLE = /^(\d{2}):(\d{2}):(\d{2})\.(\d{3})\s/;
+
+/**
+ * Convert a fractional-seconds string to milliseconds.
+ */
+function fractionToMs(fraction: string | undefined): number {
+  return fraction ? Math.floor(Number(`0.${fraction}`) * 1000) : 0;
+}
+
+/**
+ * Convert a timezone offset (Z, +02:00, -0500) to minutes east of UTC.
+ */
+function offsetMinutes(zone: string | undefined): number {
+  if (!zone || zone === 'Z') return 0;
+  const match = zone.match(/([+-])(\d{2}):?(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Extract a timestamp (epoch milliseconds, UTC) from a log line.
+ *
+ * Supports ISO-8601, nginx/Apache CLF, syslog, epoch millis, and browser
+ * console times. Formats without a date (browser console) or year
+ * (syslog) are resolved against `referenceTime`. Times without a zone
+ * are treated as UTC.
+ */
+export function parseTimestamp(line: string, referenceTime: number = Date.now()): number | undefined {
+  const text = line.slice(0, SEARCH_PREFIX_LENGTH);
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(ISO_8601))) {
+    const [, year, month, day, hour, minute, second, fraction, zone] = match;
+    const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, fractionToMs(fraction));
+    return utc - offsetMinutes(zone) * 60_000;
+  }
+
+  if ((match = text.match(CLF))) {
+    const [, day, monthName, year, hour, minute, second, zone] = match;
+    const month = MONTHS[monthName.toLowerCase()];
+    if (month === undefined) return undefined;
+    const utc = Date.UTC(+year, month, +day, +hour, +minute, +second);
+    return utc - offsetMinutes(zone) * 60_000;
+  }
+
+  if ((match = text.match(SYSLOG))) {
+    const [, monthName, day, hour, minute, second] = match;
+    const month = MONTHS[monthName.toLowerCase()];
+    if (month !== undefined) {
+      const year = new Date(referenceTime).getUTCFullYear();
+      const time = Date.UTC(year, month, +day, +hour, +minute, +second);
+      // A date after the reference is from the previous year (e.g. Dec logs read in Jan)
+      return time > referenceTime + DAY_MS
+        ? Date.UTC(year - 1, month, +day, +hour, +minute, +second)
+        : time;
+    }
+  }
+
+  if ((match = text.match(EPOCH_MILLIS))) {
+    return Number(match[1]);
+  }
+
+  if ((match = text.match(BROWSER_CONSOLE))) {
+    const [, hour, minute, second, millis] = match;
+    const dayStart = Math.floor(referenceTime / DAY_MS) * DAY_MS;
+    return dayStart + ((+hour * 60 + +minute) * 60 + +second) * 1000 + +millis;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a bucket size such as "30s", "5m", "1h" into milliseconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+)(ms|s|m|h|d)$/);
+  if (!match) return undefined;
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: DAY_MS };
+  const ms = Number(match[1]) * units[match[2]];
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * Occurrences of a template in one time bucket.
+ */
+export interface TimeBucket {
+  /** Bucket start (ISO-8601) */
+  start: string;
+  count: number;
+}
+
+/**
+ * When a template occurred, from timestamps in its lines.
+ */
+export interface TemplateTimeline {
+  firstTimestamp: string;
+  lastTimestamp: string;
+  /** Bucket with the most occurrences */
+  peak: TimeBucket;
+  /** Non-empty buckets in time order */
+  histogram: TimeBucket[];
+}
+
+/**
+ * Timelines for a compression run.
+ */
+export interface Timelines {
+  bucketMs: number;
+  /** Overall time range of the input (null if no timestamps were found) */
+  range: { start: string; end: string } | null;
+  templates: Record<string, TemplateTimeline>;
+}
+
+/**
+ * Accumulates per-template timestamps during a pass over the input lines.
+ *
+ * Lines without a timestamp (stack frames, continuation lines) inherit the
+ * previous line's. If no timestamp appears in the first lines, collection
+ * stops so the pass can end early.
+ */
+export class TimelineCollector {
+  private buckets: Map<string, Map<number, number>> = new Map();
+  private first: Map<string, number> = new Map();
+  private last: Map<string, number> = new Map();
+  private current: number | undefined;
+  private linesSeen = 0;
+  private found = false;
+  private rangeStart = Infinity;
+  private rangeEnd = -Infinity;
+  // Date context for formats without a date, from the latest dated line
+  private referenceTime = Date.now();
+
+  constructor(private readonly bucketMs: number = DEFAULT_TIME_BUCKET_MS) {}
+
+  /**
+   * Whether timestamps are still being collected.
+   */
+  get active(): boolean {
+    return this.found || this.linesSeen < DETECTION_WINDOW_LINES;
+  }
+
+  /**
+   * Record a line. Pass the template ID it matched, if any, and its
+   * timestamp if the line's format already provided one.
+   */
+  add(line: string, templateId: string | undefined, knownTimestamp?: number): void {
+    if (!this.active) return;
+    this.linesSeen++;
+
+    const timestamp = knownTimestamp ?? parseTimestamp(line, this.referenceTime);
+    if (timestamp !== undefined) {
+      this.found = true;
+      this.current = timestamp;
+      this.referenceTime = timestamp;
+      this.rangeStart = Math.min(this.rangeStart, timestamp);
+      this.rangeEnd = Math.max(this.rangeEnd, timestamp);
+    }
+
+    if (templateId === undefined || this.current === undefined) return;
+
+    const time = this.current;
+    this.first.set(templateId, Math.min(this.first.get(templateId) ?? Infinity, time));
+    this.last.set(templateId, Math.max(this.last.get(templateId) ?? -Infinity, time));
+
+    let buckets = this.buckets.get(templateId);
+    if (!buckets) {
+      buckets = new Map();
+      this.buckets.set(templateId, buckets);
+    }
+    const bucket = Math.floor(time / this.bucketMs) * this.bucketMs;
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + 1);
+  }
+
+  /**
+   * Build the timelines collected so far.
+   */
+  result(): Timelines {
+    const templates: Record<string, TemplateTimeline> = {};
+
+    for (const [templateId, buckets] of this.buckets) {
+      const histogram = Array.from(buckets.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([start, count]) => ({ start: new Date(start).toISOString(), count }));
+      const peak = histogram.reduce((max, bucket) => (bucket.count > max.count ? bucket : max));
+
+      templates[templateId] = {
+        firstTimestamp: new Date(this.first.get(templateId)!).toISOString(),
+        lastTimestamp: new Date(this.last.get(templateId)!).toISOString(),
+        peak,
+        histogram,
+      };
+    }
+
+    return {
+      bucketMs: this.bucketMs,
+      range: this.found
+        ? {
+            start: new Date(this.rangeStart).toISOString(),
+            end: new Date(this.rangeEnd).toISOString(),
+          }
+        : null,
+      templates,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+
+/**
+ * Available tokenizers. BPE vocabularies ship with js-tiktoken and load
+ * offline on first use; 'chars' is the vocabulary-free fallback.
+ */
+export const TOKENIZERS = {
+  cl100k_base: 'GPT-4, GPT-3.5; a reasonable proxy for other modern BPE models',
+  o200k_base: 'GPT-4o, GPT-4.1, GPT-5, o-series',
+  p50k_base: 'Codex, GPT-3 (text-davinci)',
+  chars: 'characters / 4 (fast approximation, no vocabulary)',
+} as const;
+
+export type TokenizerName = keyof typeof TOKENIZERS;
+
+export const TOKENIZER_NAMES = Object.keys(TOKENIZERS) as [TokenizerName, ...TokenizerName[]];
+
+export const DEFAULT_TOKENIZER: TokenizerName = 'cl100k_base';
+
+/** Texts longer than this are sampled rather than fully encoded */
+const SAMPLE_THRESHOLD_CHARS = 1_000_000;
+
+/** Evenly spaced chunks encoded when sampling */
+const SAMPLE_CHUNKS = 64;
+
+/** Approximate size of each sampled chunk */
+const SAMPLE_CHUNK_CHARS = 8192;
+
+// Static import paths so bundlers can resolve each vocabulary
+const RANK_LOADERS: Record<Exclude<TokenizerName, 'chars'>, () => Promise<{ default: TiktokenBPE }>> = {
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base'),
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base'),
+  p50k_base: () => import('js-tiktoken/ranks/p50k_base'),
+};
+
+export interface Tokenizer {
+  name: TokenizerName;
+  /** Count tokens in a text (sampled for very large texts) */
+  count(text: string): number;
+}
+
+/**
+ * Rough token estimate (chars / 4 is a common approximation).
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Count tokens in evenly spaced, line-aligned chunks of a large text and
+ * scale up by length. Encoding megabytes of logs in full takes seconds.
+ */
+function sampleCount(text: string, encode: (chunk: string) => number): number {
+  const stride = Math.floor(text.length / SAMPLE_CHUNKS);
+  let sampledChars = 0;
+  let sampledTokens = 0;
+
+  for (let i = 0; i < SAMPLE_CHUNKS; i++) {
+    const lineStart = text.lastIndexOf('\n', i * stride) + 1;
+    const lineEnd = text.indexOf('\n', lineStart + SAMPLE_CHUNK_CHARS);
+    const chunk = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+    sampledChars += chunk.length;
+    sampledTokens += encode(chunk);
+  }
+
+  return sampledChars > 0 ? Math.ceil((sampledTokens / sampledChars) * text.length) : 0;
+}
+
+const loaded = new Map<TokenizerName, Promise<Tokenizer>>();
+
+/**
+ * Load a tokenizer by name. Vocabularies are loaded once and cached.
+ */
+export function loadTokenizer(name: TokenizerName = DEFAULT_TOKENIZER): Promise<Tokenizer> {
+  if (name === 'chars') {
+    return Promise.resolve({ name, count: estimateTokens });
+  }
+
+  let tokenizer = loaded.get(name);
+  if (!tokenizer) {
+    tokenizer = RANK_LOADERS[name]().then(({ default: ranks }) => {
+      const encoding = new Tiktoken(ranks);
+      // Log text is data: never treat "<|endoftext|>" and friends as special
+      const encode = (text: string) => encoding.encode(text, [], []).length;
+
+      return {
+        name,
+        count: (text: string) =>
+          text.length > SAMPLE_THRESHOLD_CHARS ? sampleCount(text, encode) : encode(text),
+      };
+    });
+    // Allow a retry if loading failed
+    tokenizer.catch(() => loaded.delete(name));
+    loaded.set(name, tokenizer);
+  }
+
+  return tokenizer;
+}
@@ -1,6 +1,88 @@
 import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ResourceLink } from '@modelcontextprotocol/sdk/types.js';
 import { taskStore } from '../stores/task-store.js';
+import { baselineStore } from '../stores/baseline-store.js';
+
+/**
+ * Build the resource URIs for a completed task's result.
+ */
+export function getResultUris(taskId: string) {
+  return {
+    result: `logpare://results/${taskId}`,
+    templates: `logpare://templates/${taskId}`,
+    stats: `logpare://stats/${taskId}`,
+  };
+}
+
+/**
+ * Build resource_link content items for a completed task, returned
+ * next to the inline summary so clients can fetch full data later.
+ */
+export function getResultLinks(taskId: string): ResourceLink[] {
+  const uris = getResultUris(taskId);
+
+  return [
+    {
+      type: 'resource_link',
+      uri: uris.result,
+      name: `compression-result-${taskId}`,
+      description: 'Full compression result',
+      mimeType: 'application/json',
+    },
+    {
+      type: 'resource_link',
+      uri: uris.templates,
+      name: `templates-${taskId}`,
+      description: 'Extracted templates',
+      mimeType: 'application/json',
+    },
+    {
+      type: 'resource_link',
+      uri: uris.stats,
+      name: `stats-${taskId}`,
+      description: 'Compression statistics',
+      mimeType: 'application/json',
+    },
+  ];
+}
+
+/** Default and maximum example lines per page for template detail resources */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Encode an example offset as an opaque pagination cursor.
+ */
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor; missing or malformed cursors start at 0.
+ */
+function decodeCursor(cursor: string | null): number {
+  if (!cursor) return 0;
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  return Number.isInteger(offset) && offset >= 0 ? offset : 0;
+}
+
+/**
+ * Build a resources/list callback that enumerates the session's completed tasks.
+ */
+function listCompletedTasks(uriFor: (taskId: string) => string, label: string) {
+  return (extra: { sessionId?: string }) => ({
+    resources: taskStore
+      .listForSession(extra.sessionId)
+      .filter((task) => task.status === 'completed' && task.result)
+      .map((task) => ({
+        uri: uriFor(task.taskId),
+        name: `${label} ${task.taskId}`,
+        description: `${label} for task created at ${task.createdAt}`,
+        mimeType: 'application/json',
+      })),
+  });
+}
 
 /**
  * Register all MCP resources with the server.
@@ -10,22 +92,98 @@ import { taskStore } from '../stores/task-store.js';
  * - Full data retrievable via resource URI (out-of-band)
  */
 export function registerResources(server: McpServer): void {
+  // Resource: logpare://tasks
+  // Index of the session's tasks (newest first) with headline stats
+  server.resource(
+    'tasks',
+    'logpare://tasks',
+    {
+      title: 'Task Index',
+      description: 'Compression tasks of this session, newest first, with status and headline stats',
+      mimeType: 'application/json',
+    },
+    async (uri, extra) => {
+      const tasks = taskStore.listForSession(extra.sessionId).map((task) => {
+        const stats = task.result?.structuredContent;
+
+        return {
+          taskId: task.taskId,
+          status: task.status,
+          createdAt: task.createdAt,
+          inputBytes: task.inputBytes ?? null,
+          stats: stats
+            ? {
+                inputLines: stats.inputLines,
+                uniqueTemplates: stats.uniqueTemplates,
+                compressionRatio: stats.compressionRatio,
+                userImpactingErrors: stats.summary.userImpactingErrors,
+              }
+            : null,
+          resultUri: task.status === 'completed' ? getResultUris(task.taskId).result : null,
+        };
+      });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({ taskCount: tasks.length, tasks }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  // Resource: logpare://baselines
+  // Index of saved baselines (newest first) for compare_to_baseline
+  server.resource(
+    'baselines',
+    'logpare://baselines',
+    {
+      title: 'Baseline Index',
+      description: 'Saved baselines for compare_to_baseline, newest first',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      const baselines = baselineStore.list().map((baseline) => ({
+        name: baseline.name,
+        createdAt: baseline.createdAt,
+        sourceTaskId: baseline.sourceTaskId,
+        inputLines: baseline.inputLines,
+        templates: baseline.templates.length,
+      }));
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({ baselineCount: baselines.length, baselines }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   // Resource: logpare://results/{taskId}
   // Returns the full compression result for a completed task
   server.resource(
     'compression-result',
-    new ResourceTemplate('logpare://results/{taskId}', { list: undefined }),
+    new ResourceTemplate('logpare://results/{taskId}', {
+      list: listCompletedTasks((id) => getResultUris(id).result, 'Compression Result'),
+    }),
     {
       title: 'Compression Result',
       description: 'Full compression output for a completed task',
       mimeType: 'application/json',
     },
-    async (uri, { taskId }) => {
+    async (uri, { taskId }, extra) => {
       if (!taskId) {
         throw new Error('Invalid resource URI: missing task ID');
       }
 
-      const task = taskStore.get(taskId as string);
+      const task = taskStore.getForSession(taskId as string, extra.sessionId);
 
       if (!task) {
         throw new Error(`Task ${taskId} not found`);
@@ -65,18 +223,20 @@ export function registerResources(server: McpServer): void {
   // Returns just the template list (lighter weight)
   server.resource(
     'templates',
-    new ResourceTemplate('logpare://templates/{taskId}', { list: undefined }),
+    new ResourceTemplate('logpare://templates/{taskId}', {
+      list: listCompletedTasks((id) => getResultUris(id).templates, 'Template List'),
+    }),
     {
       title: 'Template List',
       description: 'Extracted templates from a completed compression task',
       mimeType: 'application/json',
     },
-    async (uri, { taskId }) => {
+    async (uri, { taskId }, extra) => {
       if (!taskId) {
         throw new Error('Invalid resource URI: missing task ID');
       }
 
-      const task = taskStore.get(taskId as string);
+      const task = taskStore.getForSession(taskId as string, extra.sessionId);
 
       if (!task) {
         throw new Error(`Task ${taskId} not found`);
@@ -110,22 +270,101 @@ export function registerResources(server: McpServer): void {
     }
   );
 
+  // Resource: logpare://templates/{taskId}/{templateId}
+  // Returns one template's full record plus paginated raw lines that matched it.
+  // Accepts ?cursor=...&limit=... query parameters for pagination.
+  server.resource(
+    'template-detail',
+    new ResourceTemplate('logpare://templates/{taskId}/{templateId}', { list: undefined }),
+    {
+      title: 'Template Detail',
+      description: 'Full record for one template with paginated raw example lines',
+      mimeType: 'application/json',
+    },
+    async (uri, { taskId, templateId }, extra) => {
+      if (!taskId || !templateId) {
+        throw new Error('Invalid resource URI: missing task ID or template ID');
+      }
+
+      // The URI template captures any query string into the last variable
+      const id = String(templateId).split('?')[0];
+
+      const task = taskStore.getForSession(taskId as string, extra.sessionId);
+
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      if (task.status !== 'completed') {
+        throw new Error(`Task ${taskId} is not completed (status: ${task.status})`);
+      }
+
+      if (!task.result) {
+        throw new Error(`Task ${taskId} has no result`);
+      }
+
+      const template = task.result.structuredContent.templates.find((t) => t.id === id);
+      if (!template) {
+        throw new Error(`Template ${id} not found in task ${taskId}`);
+      }
+
+      const examples = task.result.examples?.[id] ?? [];
+      const offset = decodeCursor(uri.searchParams.get('cursor'));
+      const limit = Math.min(
+        Math.max(Number(uri.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1),
+        MAX_PAGE_SIZE
+      );
+      const page = examples.slice(offset, offset + limit);
+      const nextOffset = offset + page.length;
+      const nextCursor = nextOffset < examples.length ? encodeCursor(nextOffset) : null;
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                taskId,
+                template,
+                examples: {
+                  lines: page,
+                  retained: examples.length,
+                  // Only the first N matching lines are retained per template
+                  truncated: examples.length < template.occurrences,
+                  nextCursor,
+                  nextUri: nextCursor
+                    ? `logpare://templates/${taskId}/${id}?cursor=${nextCursor}&limit=${limit}`
+                    : null,
+                },
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
   // Resource: logpare://stats/{taskId}
   // Returns compression statistics only
   server.resource(
     'stats',
-    new ResourceTemplate('logpare://stats/{taskId}', { list: undefined }),
+    new ResourceTemplate('logpare://stats/{taskId}', {
+      list: listCompletedTasks((id) => getResultUris(id).stats, 'Compression Statistics'),
+    }),
     {
       title: 'Compression Statistics',
       description: 'Statistics from a completed compression task',
       mimeType: 'application/json',
     },
-    async (uri, { taskId }) => {
+    async (uri, { taskId }, extra) => {
       if (!taskId) {
         throw new Error('Invalid resource URI: missing task ID');
       }
 
-      const task = taskStore.get(taskId as string);
+      const task = taskStore.getForSession(taskId as string, extra.sessionId);
 
       if (!task) {
         throw new Error(`Task ${taskId} not found`);
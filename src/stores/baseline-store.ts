@@ -0,0 +1,115 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { RunTemplate } from '../pipeline/diff.js';
+
+/**
+ * A saved "healthy" run that later compressions can be compared against.
+ */
+export interface Baseline {
+  name: string;
+  createdAt: string;
+  /** Task whose result the baseline was saved from */
+  sourceTaskId: string;
+  inputLines: number;
+  templates: RunTemplate[];
+}
+
+/**
+ * Baseline fields needed for comparison (passed to worker threads).
+ */
+export type BaselineSnapshot = Pick<Baseline, 'name' | 'inputLines' | 'templates'>;
+
+// Names become file names; allow a safe subset to prevent path traversal
+const BASELINE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+/**
+ * Check whether a baseline name is valid.
+ */
+export function isValidBaselineName(name: string): boolean {
+  return BASELINE_NAME_PATTERN.test(name) && !name.endsWith('.tmp');
+}
+
+/**
+ * Persistent store of named baselines: one JSON file per baseline.
+ *
+ * Unlike tasks, baselines never expire and are always written to disk,
+ * since their purpose is to outlive the runs they were saved from.
+ * Reads go to disk each time; baselines are small and rarely accessed.
+ */
+export class BaselineStore {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * List all baselines, newest first.
+   */
+  list(): Baseline[] {
+    let files: string[];
+    try {
+      files = readdirSync(this.dir);
+    } catch {
+      // Directory is created on first save
+      return [];
+    }
+
+    const baselines: Baseline[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        baselines.push(JSON.parse(readFileSync(join(this.dir, file), 'utf8')) as Baseline);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[logpare-mcp] Skipping unreadable baseline file ${file}: ${message}`);
+      }
+    }
+
+    return baselines.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get a baseline by name.
+   */
+  get(name: string): Baseline | undefined {
+    if (!isValidBaselineName(name)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(this.pathFor(name), 'utf8')) as Baseline;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a baseline, replacing any existing baseline with the same name.
+   * Writes go to a temp file and are renamed into place.
+   */
+  save(baseline: Baseline): void {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathFor(baseline.name);
+    const tempPath = `${path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(baseline));
+    renameSync(tempPath, path);
+  }
+
+  /**
+   * Delete a baseline. Returns true if it existed.
+   */
+  delete(name: string): boolean {
+    if (!this.get(name)) return false;
+    rmSync(this.pathFor(name), { force: true });
+    return true;
+  }
+
+  private pathFor(name: string): string {
+    if (!isValidBaselineName(name)) {
+      throw new Error(`Invalid baseline name: ${name}`);
+    }
+    return join(this.dir, `${name}.json`);
+  }
+}
+
+// Singleton instance (MCP_BASELINE_DIR, default: ~/.logpare-mcp/baselines)
+export const baselineStore = new BaselineStore(
+  process.env.MCP_BASELINE_DIR ?? join(homedir(), '.logpare-mcp', 'baselines')
+);
@@ -0,0 +1,256 @@
+import { randomUUID } from 'node:crypto';
+import type {
+  TaskStore as ProtocolTaskStore,
+  CreateTaskOptions as ProtocolCreateTaskOptions,
+} from '@modelcontextprotocol/sdk/experimental/tasks/interfaces.js';
+import type { CallToolResult, Request, Result, Task } from '@modelcontextprotocol/sdk/types.js';
+import { taskStore as defaultTaskStore, type TaskStore, type TaskState, type TaskResult } from './task-store.js';
+import { getResultLinks } from '../resources/index.js';
+
+/** Tasks per page for tasks/list */
+const LIST_PAGE_SIZE = 50;
+
+/**
+ * Result of a non-task-augmented call, wrapped in an already-completed task.
+ */
+interface LegacyCall {
+  task: Task;
+  sessionId?: string;
+  result?: CallToolResult;
+}
+
+/**
+ * Adapter that backs the MCP tasks protocol (tasks/get, tasks/result,
+ * tasks/cancel, tasks/list) with our TaskStore.
+ *
+ * The SDK routes every call to a task-capable tool through createTask, even
+ * when the client didn't ask for a task. Those legacy calls get a throwaway
+ * wrapper task that lives here (never in TaskStore) until the SDK reads its
+ * result, so older clients keep the original compress_logs behavior.
+ *
+ * Tasks are bound to the HTTP session that created them: other sessions
+ * can't see, read, or cancel them. Over stdio there is no session ID.
+ */
+export class McpTaskStore implements ProtocolTaskStore {
+  private legacyCalls: Map<string, LegacyCall> = new Map();
+
+  constructor(private readonly store: TaskStore = defaultTaskStore) {}
+
+  async createTask(
+    taskParams: ProtocolCreateTaskOptions,
+    _requestId: unknown,
+    request: Request,
+    sessionId?: string
+  ): Promise<Task> {
+    if (!request.params?.task) {
+      const now = new Date().toISOString();
+      const task: Task = {
+        taskId: `legacy-${randomUUID()}`,
+        status: 'working',
+        ttl: null,
+        createdAt: now,
+        lastUpdatedAt: now,
+      };
+      this.legacyCalls.set(task.taskId, { task, sessionId });
+      return task;
+    }
+
+    const state = this.store.create({
+      status: 'queued',
+      ...(taskParams.ttl != null && { ttl: taskParams.ttl }),
+      sessionId,
+    });
+    return toProtocolTask(state);
+  }
+
+  /**
+   * Whether a task wraps a call that wasn't task-augmented.
+   */
+  isLegacyTask(taskId: string): boolean {
+    return this.legacyCalls.has(taskId);
+  }
+
+  /**
+   * Attach the result of a legacy call and mark its wrapper task completed.
+   */
+  completeLegacyTask(taskId: string, result: CallToolResult): Task {
+    const call = this.legacyCalls.get(taskId);
+    if (!call) {
+      throw new Error(`Legacy task ${taskId} not found`);
+    }
+
+    call.task = { ...call.task, status: 'completed', lastUpdatedAt: new Date().toISOString() };
+    call.result = result;
+    return call.task;
+  }
+
+  /**
+   * Drop a legacy call's wrapper task when its handler failed, since the
+   * SDK will never read its result.
+   */
+  discardLegacyTask(taskId: string): void {
+    this.legacyCalls.delete(taskId);
+  }
+
+  /**
+   * A legacy call belonging to the session, if any.
+   */
+  private legacyCall(taskId: string, sessionId?: string): LegacyCall | undefined {
+    const call = this.legacyCalls.get(taskId);
+    return call && call.sessionId === sessionId ? call : undefined;
+  }
+
+  /**
+   * A stored task belonging to the session, if any.
+   */
+  private ownTask(taskId: string, sessionId?: string): TaskState | undefined {
+    return this.store.getForSession(taskId, sessionId);
+  }
+
+  async getTask(taskId: string, sessionId?: string): Promise<Task | null> {
+    const legacy = this.legacyCall(taskId, sessionId);
+    if (legacy) return legacy.task;
+
+    const state = this.ownTask(taskId, sessionId);
+    return state ? toProtocolTask(state) : null;
+  }
+
+  async getTaskResult(taskId: string, sessionId?: string): Promise<Result> {
+    const legacy = this.legacyCall(taskId, sessionId);
+    if (legacy?.result) {
+      // Legacy results are read exactly once, by the SDK's automatic polling
+      this.legacyCalls.delete(taskId);
+      return legacy.result;
+    }
+
+    const state = this.ownTask(taskId, sessionId);
+    if (!state) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    if (state.status === 'completed' && state.result) {
+      return {
+        content: [...state.result.content, ...getResultLinks(taskId)],
+        structuredContent: { taskId, ...state.result.structuredContent },
+      } satisfies CallToolResult;
+    }
+
+    if (state.status === 'failed' || state.status === 'cancelled') {
+      const code = state.error?.code ?? 'COMPRESSION_FAILED';
+      const message = state.error?.message ?? `Task ${state.status}`;
+      return {
+        content: [{ type: 'text', text: `Error compressing logs (${code}): ${message}` }],
+        structuredContent: { taskId, error: { code, message } },
+        isError: true,
+      } satisfies CallToolResult;
+    }
+
+    throw new Error(`Task ${taskId} has no result yet (status: ${state.status})`);
+  }
+
+  async storeTaskResult(
+    taskId: string,
+    status: 'completed' | 'failed',
+    result: Result,
+    sessionId?: string
+  ): Promise<void> {
+    const legacy = this.legacyCall(taskId, sessionId);
+    if (legacy) {
+      legacy.task = { ...legacy.task, status, lastUpdatedAt: new Date().toISOString() };
+      legacy.result = result as CallToolResult;
+      return;
+    }
+
+    // Other sessions' tasks are left alone
+    if (!this.ownTask(taskId, sessionId)) return;
+
+    const toolResult = result as CallToolResult;
+    if (status === 'failed') {
+      const text = toolResult.content?.find((c) => c.type === 'text');
+      this.store.fail(taskId, {
+        code: 'COMPRESSION_FAILED',
+        message: text?.type === 'text' ? text.text : 'Task failed',
+      });
+      return;
+    }
+
+    // Only compress_logs results are stored through the protocol
+    this.store.complete(taskId, {
+      content: toolResult.content.filter((c) => c.type === 'text'),
+      structuredContent: toolResult.structuredContent as TaskResult['structuredContent'],
+    });
+  }
+
+  async updateTaskStatus(
+    taskId: string,
+    status: Task['status'],
+    statusMessage?: string,
+    sessionId?: string
+  ): Promise<void> {
+    const legacy = this.legacyCall(taskId, sessionId);
+    if (legacy) {
+      legacy.task = { ...legacy.task, status, statusMessage, lastUpdatedAt: new Date().toISOString() };
+      return;
+    }
+
+    // Other sessions' tasks are left alone
+    if (!this.ownTask(taskId, sessionId)) return;
+
+    // cancel() also terminates the worker running the task
+    if (status === 'cancelled') {
+      this.store.cancel(taskId);
+    } else if (status === 'failed') {
+      this.store.fail(taskId, {
+        code: 'COMPRESSION_FAILED',
+        message: statusMessage ?? 'Task failed',
+      });
+    }
+  }
+
+  async listTasks(
+    cursor?: string,
+    sessionId?: string
+  ): Promise<{ tasks: Task[]; nextCursor?: string }> {
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const all = this.store.listForSession(sessionId);
+    const tasks = all.slice(offset, offset + LIST_PAGE_SIZE).map(toProtocolTask);
+    const nextOffset = offset + tasks.length;
+
+    return {
+      tasks,
+      ...(nextOffset < all.length && { nextCursor: String(nextOffset) }),
+    };
+  }
+}
+
+/**
+ * Map a TaskState to the protocol's Task shape.
+ * 'queued' has no protocol equivalent and is reported as 'working'.
+ */
+function toProtocolTask(state: TaskState): Task {
+  let statusMessage: string | undefined;
+  if (state.status === 'queued') {
+    statusMessage = `Queued at position ${state.queuePosition ?? '?'}`;
+  } else if (state.status === 'working') {
+    statusMessage = state.progress?.statusMessage;
+  } else if (state.error) {
+    statusMessage = `${state.error.code}: ${state.error.message}`;
+  }
+
+  return {
+    taskId: state.taskId,
+    status: state.status === 'queued' ? 'working' : state.status,
+    ttl: state.ttl,
+    createdAt: state.createdAt,
+    lastUpdatedAt: state.lastUpdatedAt,
+    pollInterval: state.pollInterval,
+    ...(statusMessage && { statusMessage }),
+  };
+}
+
+// Singleton instance for the server
+export const mcpTaskStore = new McpTaskStore();
@@ -0,0 +1,65 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileTaskStorage } from './task-storage.js';
+import { TaskStore, taskStore, type TaskState } from './task-store.js';
+
+// The module's singleton starts a cleanup timer
+after(() => taskStore.destroy());
+
+function tempDir(t: { after: (fn: () => void) => void }): string {
+  const dir = mkdtempSync(join(tmpdir(), 'logpare-tasks-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+function task(taskId: string, status: TaskState['status']): TaskState {
+  const now = new Date().toISOString();
+  return { taskId, status, createdAt: now, lastUpdatedAt: now, ttl: 300000, pollInterval: 1000 };
+}
+
+test('saves, loads, and deletes tasks without leaving temp files', (t) => {
+  const dir = tempDir(t);
+  const storage = new FileTaskStorage(dir);
+
+  storage.save(task('abc-1', 'working'));
+  storage.save({ ...task('abc-1', 'completed'), inputBytes: 42 });
+  assert.deepEqual(readdirSync(dir), ['abc-1.json']);
+
+  const [loaded] = new FileTaskStorage(dir).load();
+  assert.equal(loaded.status, 'completed');
+  assert.equal(loaded.inputBytes, 42);
+
+  storage.delete('abc-1');
+  assert.deepEqual(storage.load(), []);
+});
+
+test('rejects task IDs that could escape the directory', (t) => {
+  const dir = tempDir(t);
+  const storage = new FileTaskStorage(join(dir, 'tasks'));
+
+  for (const taskId of ['../escape', 'a/b', '..', 'x.json', '']) {
+    assert.throws(() => storage.save(task(taskId, 'working')), /Invalid task ID/);
+    assert.throws(() => storage.delete(taskId), /Invalid task ID/);
+  }
+  assert.equal(existsSync(join(dir, 'escape.json')), false);
+});
+
+test('tasks still pending at restart are restored as INTERRUPTED', (t) => {
+  const dir = tempDir(t);
+  const storage = new FileTaskStorage(dir);
+  storage.save(task('pending-1', 'working'));
+  storage.save(task('queued-1', 'queued'));
+
+  const store = new TaskStore(storage);
+  t.after(() => store.destroy());
+
+  for (const taskId of ['pending-1', 'queued-1']) {
+    assert.equal(store.get(taskId)?.status, 'failed');
+    assert.equal(store.get(taskId)?.error?.code, 'INTERRUPTED');
+  }
+  // The failure is written back, so a second restart sees it too
+  assert.ok(storage.load().every((restored) => restored.error?.code === 'INTERRUPTED'));
+});
@@ -0,0 +1,104 @@
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { TaskState } from './task-store.js';
+
+/**
+ * Storage backend for TaskStore.
+ *
+ * TaskStore keeps every task in memory and writes changes through to the
+ * backend, so implementations only need to persist and reload snapshots.
+ * All methods are synchronous to keep TaskStore's API synchronous.
+ */
+export interface TaskStorage {
+  /** Load all persisted tasks (called once at startup) */
+  load(): TaskState[];
+
+  /** Persist the current state of a task */
+  save(task: TaskState): void;
+
+  /** Remove a persisted task */
+  delete(taskId: string): void;
+}
+
+/**
+ * Default backend: nothing is persisted, tasks are lost on restart.
+ */
+export class MemoryTaskStorage implements TaskStorage {
+  load(): TaskState[] {
+    return [];
+  }
+
+  save(): void {}
+
+  delete(): void {}
+}
+
+// Task IDs are generated by TaskStore; reject anything else to prevent path traversal
+const TASK_ID_PATTERN = /^[a-z0-9-]+$/i;
+
+/**
+ * Durable backend: one JSON file per task in a directory.
+ * Writes go to a temp file and are renamed into place so a crash
+ * never leaves a half-written task behind.
+ */
+export class FileTaskStorage implements TaskStorage {
+  constructor(private readonly dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  load(): TaskState[] {
+    const tasks: TaskState[] = [];
+
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        tasks.push(JSON.parse(readFileSync(join(this.dir, file), 'utf8')) as TaskState);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[logpare-mcp] Skipping unreadable task file ${file}: ${message}`);
+      }
+    }
+
+    return tasks;
+  }
+
+  save(task: TaskState): void {
+    const path = this.pathFor(task.taskId);
+    const tempPath = `${path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(task));
+    renameSync(tempPath, path);
+  }
+
+  delete(taskId: string): void {
+    rmSync(this.pathFor(taskId), { force: true });
+  }
+
+  private pathFor(taskId: string): string {
+    if (!TASK_ID_PATTERN.test(taskId)) {
+      throw new Error(`Invalid task ID: ${taskId}`);
+    }
+    return join(this.dir, `${taskId}.json`);
+  }
+}
+
+/**
+ * Create the storage backend selected by environment variables:
+ * - MCP_TASK_STORE: 'memory' (default) or 'file'
+ * - MCP_TASK_STORE_DIR: directory for the 'file' backend (default: ~/.logpare-mcp/tasks)
+ */
+export function createTaskStorage(): TaskStorage {
+  const backend = process.env.MCP_TASK_STORE ?? 'memory';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryTaskStorage();
+    case 'file':
+      return new FileTaskStorage(
+        process.env.MCP_TASK_STORE_DIR ?? join(homedir(), '.logpare-mcp', 'tasks')
+      );
+    default:
+      throw new Error(`Unknown MCP_TASK_STORE backend: ${backend}`);
+  }
+}
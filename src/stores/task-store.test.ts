@@ -0,0 +1,76 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskStore, taskStore, type TaskResult } from './task-store.js';
+import { MemoryTaskStorage } from './task-storage.js';
+
+// The module's singleton starts a cleanup timer
+after(() => taskStore.destroy());
+
+function result(text: string): TaskResult {
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: {
+      compressionRatio: 0.5,
+      inputLines: 10,
+      uniqueTemplates: 1,
+      estimatedTokenReduction: 50,
+      summary: {
+        critical: 0,
+        userImpactingErrors: 0,
+        expectedFailures: 0,
+        performanceViolations: 0,
+        otherWarnings: 0,
+        infoPatterns: 1,
+        stackTracePatterns: 0,
+      },
+      templates: [],
+      processingTimeMs: 1,
+    },
+  };
+}
+
+const resultBytes = Buffer.byteLength(JSON.stringify(result('a')));
+
+test('completing a task twice counts its result once', (t) => {
+  const store = new TaskStore(new MemoryTaskStorage(), resultBytes * 2.5);
+  t.after(() => store.destroy());
+  const first = store.create();
+  const second = store.create();
+
+  assert.ok(store.complete(first.taskId, result('a')));
+  assert.equal(store.complete(first.taskId, result('a')), undefined);
+  store.complete(second.taskId, result('b'));
+
+  // Two results fit the limit; a double-counted first result would be evicted
+  assert.equal(store.get(first.taskId)?.status, 'completed');
+});
+
+test('a result arriving after cancellation is ignored', (t) => {
+  const store = new TaskStore(new MemoryTaskStorage());
+  t.after(() => store.destroy());
+  const task = store.create({ status: 'queued' });
+
+  store.cancel(task.taskId);
+  assert.equal(store.complete(task.taskId, result('late')), undefined);
+  assert.equal(store.fail(task.taskId, { code: 'COMPRESSION_FAILED', message: 'late' }), undefined);
+
+  const state = store.get(task.taskId);
+  assert.equal(state?.status, 'cancelled');
+  assert.equal(state?.result, undefined);
+});
+
+test('tasks are only visible to the session that created them', (t) => {
+  const store = new TaskStore(new MemoryTaskStorage());
+  t.after(() => store.destroy());
+  const own = store.create({ sessionId: 'a' });
+  const stdio = store.create();
+
+  assert.equal(store.getForSession(own.taskId, 'a')?.taskId, own.taskId);
+  assert.equal(store.getForSession(own.taskId, 'b'), undefined);
+  assert.equal(store.getForSession(own.taskId), undefined);
+  assert.equal(store.getForSession(stdio.taskId, 'a'), undefined);
+  assert.deepEqual(
+    store.listForSession('a').map((task) => task.taskId),
+    [own.taskId]
+  );
+});
@@ -1,6 +1,24 @@
+import { createTaskStorage, MemoryTaskStorage, type TaskStorage } from './task-storage.js';
+import type { Template } from 'logpare';
+import type { TemplateExamples } from '../pipeline/examples.js';
+import type { BaselineStatus, TemplateBaselineStatus } from '../pipeline/baseline.js';
+import type { TemplateTimeline } from '../pipeline/timestamps.js';
+import type { Anomaly } from '../pipeline/anomalies.js';
+import type { BudgetReport } from '../pipeline/budget.js';
+import type { TemplateAttributes } from '../pipeline/ndjson.js';
+import type { InputFormatReport } from '../pipeline/log-formats.js';
+import type { MultilineStats, TemplateStack } from '../pipeline/multiline.js';
+import type { Issue } from '../pipeline/issues.js';
+import type { SourceMapStats } from '../pipeline/source-maps.js';
+import type { ProfileReport } from '../pipeline/profiles.js';
+import type { RunTemplate } from '../pipeline/diff.js';
+
 /**
- * Simple in-memory store for async task tracking.
- * Tasks auto-expire after TTL.
+ * Store for async task tracking.
+ * Tasks are held in memory and written through to a pluggable storage
+ * backend (see task-storage.ts) so completed results can survive restarts.
+ * Tasks auto-expire after TTL; completed results are evicted
+ * least-recently-used first when their total size exceeds the limit.
  */
 
 /**
@@ -25,11 +43,17 @@ export interface TaskProgress {
 
 export interface TaskState {
   taskId: string;
-  status: 'working' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'working' | 'completed' | 'failed' | 'cancelled';
+  /** Position in the job queue (1-based) while status is 'queued' */
+  queuePosition?: number;
   createdAt: string;
   lastUpdatedAt: string;
   ttl: number;
   pollInterval: number;
+  /** Size of the compressed input in bytes */
+  inputBytes?: number;
+  /** HTTP session that created the task; other sessions can't see it */
+  sessionId?: string;
   progress?: TaskProgress;
   result?: TaskResult;
   error?: TaskError;
@@ -43,6 +67,7 @@ export interface TaskResult {
     uniqueTemplates: number;
     estimatedTokenReduction: number;
     summary: {
+      critical: number;
       userImpactingErrors: number;
       expectedFailures: number;
       performanceViolations: number;
@@ -50,13 +75,61 @@ export interface TaskResult {
       infoPatterns: number;
       stackTracePatterns: number;
     };
+    /** Rate anomalies, when detection was requested */
+    anomalies?: Anomaly[];
     templates: Array<{
       id: string;
       pattern: string;
       occurrences: number;
+      // Enriched fields (see enrichTemplate); absent on minimal results
+      severity?: Template['severity'];
+      isStackFrame?: boolean;
+      hydratedExample?: string;
+      urlSamples?: string[];
+      fullUrlSamples?: string[];
+      baseline?: TemplateBaselineStatus;
+      timeline?: TemplateTimeline;
+      /** Top values of record attributes (structured input formats only) */
+      attributes?: TemplateAttributes;
+      /** Most common stack trace attached to the template's records */
+      stack?: TemplateStack;
     }>;
+    /** Error templates grouped by exception fingerprint, most occurrences first */
+    issues?: Issue[];
+    /** Time span of the input, when its lines carry timestamps */
+    timeRange?: { start: string; end: string; bucketMs: number };
+    /** Template counts by status when compared to a baseline */
+    baseline?: { name: string } & Record<BaselineStatus, number>;
+    /** Knobs adjusted to fit max_output_tokens */
+    budget?: BudgetReport;
+    /** Input format (detected or given) and how its lines were parsed */
+    inputFormat?: InputFormatReport;
+    /** Rule profile used, and the one the input suggests */
+    profile?: ProfileReport;
+    /** Continuation lines grouped into multi-line records */
+    multiline?: MultilineStats;
+    /** Source maps loaded and frames resolved with them */
+    sourceMaps?: SourceMapStats;
     processingTimeMs: number;
   };
+  /** Raw lines that matched each template, for drill-down resources */
+  examples?: TemplateExamples;
+  /** Every template of the run, not only max_templates, for baselines and diffs */
+  runTemplates?: RunTemplate[];
+}
+
+export interface CreateTaskOptions {
+  /** Time-to-live in milliseconds (default: 5 minutes) */
+  ttl?: number;
+
+  /** Initial status (default: 'working') */
+  status?: 'queued' | 'working';
+
+  /** Size of the input in bytes */
+  inputBytes?: number;
+
+  /** HTTP session the task belongs to */
+  sessionId?: string;
 }
 
 export interface TaskError {
@@ -73,33 +146,95 @@ function generateId(): string {
 // Prevents tasks from living indefinitely via frequent updates
 const MAX_TASK_LIFETIME_MS = 30 * 60 * 1000;
 
+// Maximum total size of stored results (MCP_MAX_RESULT_BYTES, default: 256MB)
+const DEFAULT_MAX_RESULT_BYTES = Number(process.env.MCP_MAX_RESULT_BYTES) || 256 * 1024 * 1024;
+
+/**
+ * Check whether a task is still pending (queued or running).
+ */
+function isPending(task: TaskState): boolean {
+  return task.status === 'queued' || task.status === 'working';
+}
+
 export class TaskStore {
   private tasks: Map<string, TaskState> = new Map();
+  private cancelHandlers: Map<string, () => void> = new Map();
+  // Result sizes in bytes, in least-recently-used order
+  private resultSizes: Map<string, number> = new Map();
+  private totalResultBytes = 0;
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
-  constructor() {
+  constructor(
+    private readonly storage: TaskStorage = new MemoryTaskStorage(),
+    private readonly maxResultBytes: number = DEFAULT_MAX_RESULT_BYTES
+  ) {
+    this.restore();
+
     // Cleanup expired tasks every 30 seconds
     this.cleanupInterval = setInterval(() => this.cleanupExpired(), 30000);
   }
 
   /**
-   * Create a new task with 'working' status.
-   * @param ttl Time-to-live in milliseconds (default: 5 minutes)
+   * Load persisted tasks from storage.
+   * Tasks that were still pending when the server stopped can't be resumed
+   * (their input is gone), so they are marked as failed.
    */
-  create(ttl: number = 300000): TaskState {
+  private restore(): void {
+    const restored = this.storage
+      .load()
+      .sort((a, b) => a.lastUpdatedAt.localeCompare(b.lastUpdatedAt));
+
+    for (const task of restored) {
+      this.tasks.set(task.taskId, task);
+
+      if (isPending(task)) {
+        this.fail(task.taskId, {
+          code: 'INTERRUPTED',
+          message: 'Server restarted before the task finished',
+        });
+      } else if (task.result) {
+        this.trackResult(task.taskId, task.result);
+      }
+    }
+
+    this.evictResults();
+  }
+
+  /**
+   * Write a task through to storage.
+   * Storage errors are logged rather than thrown so a full disk never
+   * breaks in-memory task tracking.
+   */
+  private persist(task: TaskState): void {
+    try {
+      this.storage.save(task);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[logpare-mcp] Failed to persist task ${task.taskId}: ${message}`);
+    }
+  }
+
+  /**
+   * Create a new task with 'working' (or 'queued') status.
+   */
+  create(options: CreateTaskOptions = {}): TaskState {
+    const { ttl = 300000, status = 'working', inputBytes, sessionId } = options;
     const taskId = generateId();
     const now = new Date().toISOString();
 
     const task: TaskState = {
       taskId,
-      status: 'working',
+      status,
       createdAt: now,
       lastUpdatedAt: now,
       ttl,
       pollInterval: 1000,
+      ...(inputBytes !== undefined && { inputBytes }),
+      ...(sessionId !== undefined && { sessionId }),
     };
 
     this.tasks.set(taskId, task);
+    this.persist(task);
     return task;
   }
 
@@ -107,13 +242,56 @@ export class TaskStore {
    * Get a task by ID.
    */
   get(taskId: string): TaskState | undefined {
-    return this.tasks.get(taskId);
+    const task = this.tasks.get(taskId);
+
+    // Reading a result marks it as recently used
+    const size = this.resultSizes.get(taskId);
+    if (size !== undefined) {
+      this.resultSizes.delete(taskId);
+      this.resultSizes.set(taskId, size);
+    }
+
+    return task;
+  }
+
+  /**
+   * Get a task by ID if it belongs to the session (stdio tasks have none).
+   */
+  getForSession(taskId: string, sessionId?: string): TaskState | undefined {
+    const task = this.tasks.get(taskId);
+    return task && task.sessionId === sessionId ? this.get(taskId) : undefined;
+  }
+
+  /**
+   * List all tasks, newest first.
+   * Unlike get(), listing doesn't mark results as recently used.
+   */
+  list(): TaskState[] {
+    return Array.from(this.tasks.values()).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+
+  /**
+   * List the session's tasks, newest first.
+   */
+  listForSession(sessionId?: string): TaskState[] {
+    return this.list().filter((task) => task.sessionId === sessionId);
   }
 
   /**
    * Update a task's fields.
    */
   update(taskId: string, updates: Partial<TaskState>): TaskState | undefined {
+    const updated = this.apply(taskId, updates);
+    if (updated) this.persist(updated);
+    return updated;
+  }
+
+  /**
+   * Update a task's fields in memory only.
+   */
+  private apply(taskId: string, updates: Partial<TaskState>): TaskState | undefined {
     const task = this.tasks.get(taskId);
     if (!task) return undefined;
 
@@ -129,41 +307,114 @@ export class TaskStore {
 
   /**
    * Mark a task as completed with result.
+   * No-op (returns undefined) once the task has finished, failed, or been
+   * cancelled, so a late result can't replace a cancellation or be counted twice.
    */
   complete(taskId: string, result: TaskResult): TaskState | undefined {
-    return this.update(taskId, {
+    const task = this.tasks.get(taskId);
+    if (!task || !isPending(task)) {
+      return undefined;
+    }
+
+    this.cancelHandlers.delete(taskId);
+    const updated = this.update(taskId, {
       status: 'completed',
+      queuePosition: undefined,
       result,
     });
+
+    if (updated) {
+      this.trackResult(taskId, result);
+      this.evictResults(taskId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Record a result's size for LRU eviction.
+   */
+  private trackResult(taskId: string, result: TaskResult): void {
+    const size = Buffer.byteLength(JSON.stringify(result));
+    this.resultSizes.set(taskId, size);
+    this.totalResultBytes += size;
+  }
+
+  /**
+   * Mark a queued task as started.
+   */
+  start(taskId: string): TaskState | undefined {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'queued') {
+      return undefined;
+    }
+
+    return this.update(taskId, { status: 'working', queuePosition: undefined });
+  }
+
+  /**
+   * Update a queued task's position in the job queue.
+   * Like progress, the position only matters while the server is running.
+   */
+  setQueuePosition(taskId: string, queuePosition: number): TaskState | undefined {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'queued') {
+      return undefined;
+    }
+
+    return this.apply(taskId, { queuePosition });
   }
 
   /**
    * Mark a task as failed with error.
+   * No-op (returns undefined) once the task is no longer pending.
    */
   fail(taskId: string, error: TaskError): TaskState | undefined {
+    const task = this.tasks.get(taskId);
+    if (!task || !isPending(task)) {
+      return undefined;
+    }
+
+    this.cancelHandlers.delete(taskId);
     return this.update(taskId, {
       status: 'failed',
+      queuePosition: undefined,
       error,
     });
   }
 
   /**
-   * Cancel a running task.
+   * Cancel a queued or running task.
    * Returns the updated task or undefined if task doesn't exist or isn't cancellable.
    */
   cancel(taskId: string): TaskState | undefined {
     const task = this.tasks.get(taskId);
-    if (!task || task.status !== 'working') {
+    if (!task || !isPending(task)) {
       return undefined;
     }
 
-    return this.update(taskId, {
+    const updated = this.update(taskId, {
       status: 'cancelled',
+      queuePosition: undefined,
       error: {
         code: 'CANCELLED',
         message: 'Task was cancelled by user',
       },
     });
+
+    const handler = this.cancelHandlers.get(taskId);
+    this.cancelHandlers.delete(taskId);
+    handler?.();
+
+    return updated;
+  }
+
+  /**
+   * Register a handler that stops the task's work when it is cancelled.
+   * Used to terminate the worker thread running the compression.
+   */
+  onCancel(taskId: string, handler: () => void): void {
+    this.cancelHandlers.set(taskId, handler);
   }
 
   /**
@@ -176,6 +427,8 @@ export class TaskStore {
 
   /**
    * Update task progress.
+   * Progress isn't written to storage: a restart fails working tasks anyway,
+   * and the file store would otherwise rewrite the task on every update.
    */
   updateProgress(taskId: string, progress: TaskProgress): TaskState | undefined {
     const task = this.tasks.get(taskId);
@@ -183,13 +436,30 @@ export class TaskStore {
       return undefined;
     }
 
-    return this.update(taskId, { progress });
+    return this.apply(taskId, { progress });
   }
 
   /**
-   * Delete a task.
+   * Delete a task, stopping any work still running for it.
    */
   delete(taskId: string): boolean {
+    const handler = this.cancelHandlers.get(taskId);
+    this.cancelHandlers.delete(taskId);
+    handler?.();
+
+    const size = this.resultSizes.get(taskId);
+    if (size !== undefined) {
+      this.resultSizes.delete(taskId);
+      this.totalResultBytes -= size;
+    }
+
+    try {
+      this.storage.delete(taskId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[logpare-mcp] Failed to delete persisted task ${taskId}: ${message}`);
+    }
+
     return this.tasks.delete(taskId);
   }
 
@@ -210,8 +480,8 @@ export class TaskStore {
         continue;
       }
 
-      // Use lastUpdatedAt for working tasks (sliding window TTL)
-      const referenceTime = task.status === 'working'
+      // Use lastUpdatedAt for pending tasks (sliding window TTL)
+      const referenceTime = isPending(task)
         ? new Date(task.lastUpdatedAt).getTime()
         : createdAtMs;
 
@@ -221,12 +491,27 @@ export class TaskStore {
     }
 
     for (const taskId of expired) {
-      this.tasks.delete(taskId);
+      this.delete(taskId);
+    }
+  }
+
+  /**
+   * Evict least-recently-used results until the total size fits the limit.
+   * The most recent result is kept even if it alone exceeds the limit.
+   */
+  private evictResults(keepTaskId?: string): void {
+    for (const taskId of Array.from(this.resultSizes.keys())) {
+      if (this.totalResultBytes <= this.maxResultBytes) break;
+      if (taskId === keepTaskId) continue;
+
+      this.delete(taskId);
+      console.error(`[logpare-mcp] Evicted result for task ${taskId} (result size limit reached)`);
     }
   }
 
   /**
-   * Stop cleanup interval and clear all tasks.
+   * Stop cleanup interval and clear all tasks from memory.
+   * Persisted tasks are kept and reloaded on the next start.
    */
   destroy(): void {
     if (this.cleanupInterval) {
@@ -234,8 +519,11 @@ export class TaskStore {
       this.cleanupInterval = null;
     }
     this.tasks.clear();
+    this.cancelHandlers.clear();
+    this.resultSizes.clear();
+    this.totalResultBytes = 0;
   }
 }
 
-// Singleton instance for the server
-export const taskStore = new TaskStore();
+// Singleton instance for the server (backend selected via MCP_TASK_STORE)
+export const taskStore = new TaskStore(createTaskStorage());
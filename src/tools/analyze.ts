@@ -1,5 +1,16 @@
 import { z } from 'zod';
 import { createDrain } from 'logpare';
+import { addLinesInBatches, iterateLines } from '../pipeline/source.js';
+import { applyRecordSeverities, collectRecords, iterateMessages } from '../pipeline/ndjson.js';
+import { groupMessages } from '../pipeline/multiline.js';
+import {
+  DETECTION_SAMPLE_LINES,
+  INPUT_FORMATS,
+  reportInputFormat,
+  resolveLogInput,
+} from '../pipeline/log-formats.js';
+import { formatAttributes, formatInputFormat } from '../formats/smart.js';
+import { toNdjsonMapping } from './compress.js';
 
 export const analyzeLogPatternsSchema = z.object({
   logs: z.string().describe('Raw log content to analyze'),
@@ -10,11 +21,35 @@ export const analyzeLogPatternsSchema = z.object({
     .max(100)
     .optional()
     .describe('Maximum number of templates to return (default: 20)'),
+  input_format: z
+    .enum(INPUT_FORMATS)
+    .optional()
+    .describe(
+      'Input format (default: auto, detected from the first lines): text (as-is), ndjson, docker, cri, kubectl, journald, syslog, access_log, or chrome_console'
+    ),
+  message_field: z
+    .string()
+    .optional()
+    .describe('NDJSON field to cluster, dotted paths allowed (default: "message")'),
+  level_field: z
+    .string()
+    .optional()
+    .describe('NDJSON field holding the log level (default: "level")'),
+  attribute_fields: z
+    .array(z.string())
+    .optional()
+    .describe('NDJSON fields to summarize per template (default: all other scalar fields)'),
+  multiline: z
+    .boolean()
+    .optional()
+    .describe(
+      'Group stack traces (JS/Java frames, Caused by chains, Python tracebacks, Go panics) with the line they follow (default: false)'
+    ),
 });
 
 export type AnalyzeLogPatternsArgs = z.infer<typeof analyzeLogPatternsSchema>;
 
-export const analyzeLogPatternsDescription = `Extract log templates and patterns without full compression. Shows the structure of logs with occurrence counts and sample variable values. Useful for understanding log patterns before deciding on compression settings.`;
+export const analyzeLogPatternsDescription = `Extract log templates and patterns without full compression. Shows the structure of logs with occurrence counts and sample variable values. Useful for understanding log patterns before deciding on compression settings. The input format (JSON lines, Docker, Kubernetes, syslog, ...) is detected automatically.`;
 
 /** Tool result type compatible with MCP SDK */
 export interface ToolResult {
@@ -27,23 +62,44 @@ export interface ToolResult {
  * Handler for analyze_log_patterns tool.
  */
 export function handleAnalyzeLogPatterns(args: AnalyzeLogPatternsArgs): ToolResult {
-  const { logs, max_templates = 20 } = args;
+  const { logs, max_templates = 20, input_format = 'auto', multiline = false } = args;
 
   try {
-    const lines = logs.split(/\r?\n/).filter((line) => line.trim());
+    const sample: string[] = [];
+    if (input_format === 'auto') {
+      for (const line of iterateLines(logs)) {
+        if (sample.length >= DETECTION_SAMPLE_LINES) break;
+        if (line.trim()) sample.push(line);
+      }
+    }
+    const input = resolveLogInput(input_format, sample, toNdjsonMapping(args));
+
+    // Stream lines into Drain instead of splitting the whole input
+    const drain = createDrain();
+    const lines = iterateLines(logs);
+    const messages = input ? iterateMessages(lines, input.parse) : lines;
+    const lineCount = addLinesInBatches(drain, multiline ? groupMessages(messages) : messages);
 
-    if (lines.length === 0) {
+    if (lineCount === 0) {
       return {
         content: [{ type: 'text', text: 'No log lines found to analyze.' }],
       };
     }
 
-    const drain = createDrain();
-    drain.addLogLines(lines);
     const result = drain.getResult('detailed', max_templates);
 
+    // Structured formats: second pass for levels and per-template attributes
+    const records =
+      input && input.format !== 'text'
+        ? collectRecords(iterateLines(logs), result.templates, input.parse, multiline)
+        : undefined;
+    const templates = records ? applyRecordSeverities(result.templates, records) : result.templates;
+    const attributes = records?.attributes();
+    const inputFormat = reportInputFormat(input, records?.stats());
+    const inputLine = formatInputFormat(inputFormat);
+
     // Build formatted output
-    const templateList = result.templates
+    const templateList = templates
       .slice(0, max_templates)
       .map((t, i) => {
         const samples =
@@ -53,7 +109,10 @@ export function handleAnalyzeLogPatterns(args: AnalyzeLogPatternsArgs): ToolResu
                 .map((vars) => vars.join(', '))
                 .join(' | ')
             : '';
-        return `${i + 1}. [${t.occurrences}x] ${t.pattern}${samples ? `\n   Sample values: ${samples}` : ''}`;
+        const attributeLine = attributes?.[t.id]
+          ? formatAttributes(attributes[t.id], t.occurrences)?.trim()
+          : undefined;
+        return `${i + 1}. [${t.occurrences}x] ${t.pattern}${samples ? `\n   Sample values: ${samples}` : ''}${attributeLine ? `\n   ${attributeLine}` : ''}`;
       })
       .join('\n\n');
 
@@ -61,14 +120,15 @@ export function handleAnalyzeLogPatterns(args: AnalyzeLogPatternsArgs): ToolResu
       '=== Log Pattern Analysis ===',
       '',
       `Lines analyzed: ${result.stats.inputLines}`,
+      ...(inputLine ? [inputLine] : []),
       `Unique templates found: ${result.stats.uniqueTemplates}`,
       `Potential token reduction: ${(result.stats.estimatedTokenReduction * 100).toFixed(1)}%`,
       '',
       'Top templates by frequency:',
       '',
       templateList,
-      result.templates.length > max_templates
-        ? `\n... and ${result.templates.length - max_templates} more templates`
+      templates.length > max_templates
+        ? `\n... and ${templates.length - max_templates} more templates`
         : '',
     ].join('\n');
 
@@ -78,14 +138,17 @@ export function handleAnalyzeLogPatterns(args: AnalyzeLogPatternsArgs): ToolResu
         inputLines: result.stats.inputLines,
         uniqueTemplates: result.stats.uniqueTemplates,
         estimatedTokenReduction: result.stats.estimatedTokenReduction,
-        templates: result.templates.slice(0, max_templates).map((t) => ({
+        templates: templates.slice(0, max_templates).map((t) => ({
           id: t.id,
           pattern: t.pattern,
           occurrences: t.occurrences,
           sampleVariables: t.sampleVariables,
           firstSeen: t.firstSeen,
           lastSeen: t.lastSeen,
+          ...(records && { severity: t.severity }),
+          ...(attributes?.[t.id] && { attributes: attributes[t.id] }),
         })),
+        inputFormat,
       },
     };
   } catch (error) {
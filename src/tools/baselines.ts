@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { taskStore } from '../stores/task-store.js';
+import { baselineStore, isValidBaselineName } from '../stores/baseline-store.js';
+import { profileFromTaskResult } from '../pipeline/diff.js';
+
+export const saveBaselineSchema = z.object({
+  name: z
+    .string()
+    .describe('Baseline name, e.g. "prod-api-normal" (letters, digits, ".", "_", "-")'),
+  task_id: z.string().describe('Task ID of a completed compression of a healthy run'),
+});
+
+export type SaveBaselineArgs = z.infer<typeof saveBaselineSchema>;
+
+export const saveBaselineDescription = `Save a completed compression result as a named baseline (e.g. "prod-api-normal") in a persistent local store. Later compress_logs calls with compare_to_baseline mark each template as known, new, or abnormal in frequency versus this baseline. Saving under an existing name replaces it.`;
+
+export const deleteBaselineSchema = z.object({
+  name: z.string().describe('Name of the baseline to delete'),
+});
+
+export type DeleteBaselineArgs = z.infer<typeof deleteBaselineSchema>;
+
+export const deleteBaselineDescription = `Delete a saved baseline. List baselines with the logpare://baselines resource.`;
+
+/** Tool result type compatible with MCP SDK */
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Handler for save_baseline tool.
+ * The task must belong to the caller's HTTP session (sessionId).
+ */
+export function handleSaveBaseline(args: SaveBaselineArgs, sessionId?: string): ToolResult {
+  const { name, task_id } = args;
+
+  if (!isValidBaselineName(name)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Invalid baseline name "${name}". Use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const task = taskStore.getForSession(task_id, sessionId);
+  if (!task) {
+    return {
+      content: [{ type: 'text', text: `Task ${task_id} not found (it may have expired)` }],
+      isError: true,
+    };
+  }
+  if (task.status !== 'completed' || !task.result) {
+    return {
+      content: [{ type: 'text', text: `Task ${task_id} has no result (status: ${task.status})` }],
+      isError: true,
+    };
+  }
+
+  try {
+    const profile = profileFromTaskResult(task_id, task.result);
+    const baseline = {
+      name,
+      createdAt: new Date().toISOString(),
+      sourceTaskId: task_id,
+      inputLines: profile.inputLines,
+      templates: profile.templates,
+    };
+    const replaced = baselineStore.get(name) !== undefined;
+    baselineStore.save(baseline);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Baseline "${name}" ${replaced ? 'replaced' : 'saved'} from task ${task_id} (${baseline.templates.length} templates, ${baseline.inputLines.toLocaleString()} lines). Use compare_to_baseline: "${name}" with compress_logs.`,
+        },
+      ],
+      structuredContent: {
+        name,
+        createdAt: baseline.createdAt,
+        sourceTaskId: task_id,
+        inputLines: baseline.inputLines,
+        templates: baseline.templates.length,
+        replaced,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Error saving baseline: ${message}` }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handler for delete_baseline tool.
+ */
+export function handleDeleteBaseline(args: DeleteBaselineArgs): ToolResult {
+  const { name } = args;
+
+  try {
+    if (!baselineStore.delete(name)) {
+      return {
+        content: [{ type: 'text', text: `Baseline "${name}" not found` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: `Baseline "${name}" deleted.` }],
+      structuredContent: { name, deleted: true },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: 'text', text: `Error deleting baseline: ${message}` }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { getErrorCode } from '../errors.js';
+import { resolveAllowedRoots, resolveLogFiles } from '../files/log-files.js';
+import {
+  compressLogsOutputSchema,
+  compressLogsSchema,
+  compressSource,
+  errorResult,
+  type CompressLogsOptions,
+  type ToolResult,
+} from './compress.js';
+
+/** compress_logs' options, reading files instead of inline logs */
+export const compressLogFileSchema = compressLogsSchema.omit({ logs: true }).extend({
+  paths: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      'Log file paths or glob patterns (*, **, ?, [...]). Relative paths resolve against the first allowed root.'
+    ),
+});
+
+export type CompressLogFileArgs = z.infer<typeof compressLogFileSchema>;
+
+/** structuredContent of a compress_log_file result: compress_logs' plus the files read */
+export const compressLogFileOutputSchema = compressLogsOutputSchema.extend({
+  files: z.array(z.string()).optional().describe('Files that were compressed, in order'),
+});
+
+export const compressLogFileDescription = `Compress log files on disk without pasting their content. Accepts file paths or glob patterns; matched files are streamed in order and compressed together exactly like compress_logs, so multi-hundred-megabyte files are supported.
+
+Reads are restricted to the client's MCP roots and the directories in MCP_ALLOWED_ROOTS. Inputs >1MB use async task-based processing (poll with get_task_status, stop with cancel_task).`;
+
+/**
+ * Extra per-call context for compress_log_file (rootUris also restricts
+ * which files are read).
+ */
+export type CompressLogFileOptions = CompressLogsOptions;
+
+/**
+ * Main handler for compress_log_file tool.
+ * Resolves the files, then hands off to the compress_logs pipeline.
+ */
+export async function handleCompressLogFile(
+  args: CompressLogFileArgs,
+  options: CompressLogFileOptions = {}
+): Promise<ToolResult> {
+  const { paths, ...settings } = args;
+
+  try {
+    const roots = await resolveAllowedRoots(options.rootUris);
+    const files = await resolveLogFiles(paths, roots);
+
+    // Files are streamed line by line (on a worker for large inputs)
+    const result = await compressSource({ type: 'files', files }, settings, options);
+
+    if (result.isError) {
+      return result;
+    }
+
+    return {
+      ...result,
+      structuredContent: { ...result.structuredContent, files },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(getErrorCode(error), message);
+  }
+}
@@ -1,17 +1,39 @@
 import { z } from 'zod';
-import { compressText, type CompressionResult, type Template, type ProgressEvent } from 'logpare';
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import type { ResourceLink } from '@modelcontextprotocol/sdk/types.js';
 import { taskStore, type TaskResult, type TaskProgress } from '../stores/task-store.js';
 import {
-  formatSmart,
-  isExpectedFailure,
-  hydratePattern,
-  extractNumericRange,
-  isPerformanceViolation,
-} from '../formats/smart.js';
+  runCompression,
+  type CompressionOptions,
+  type CompressionOutput,
+} from '../pipeline/compress.js';
+import { getSourceSize, type LogSource } from '../pipeline/source.js';
+import { MIN_TIME_BUCKET_MS, parseDuration } from '../pipeline/timestamps.js';
+import { TOKENIZER_NAMES } from '../pipeline/tokenizer.js';
+import { INPUT_FORMATS } from '../pipeline/log-formats.js';
+import {
+  classificationRulesSchema,
+  resolveClassificationSettings,
+} from '../pipeline/classification.js';
+import { PROFILE_OPTIONS } from '../pipeline/profiles.js';
+import {
+  DEFAULT_LEVEL_FIELD,
+  DEFAULT_MESSAGE_FIELD,
+  type NdjsonMapping,
+} from '../pipeline/ndjson.js';
+import { compressionPool, JobCancelledError } from '../workers/pool.js';
+import { CompressionError, getErrorCode, type ErrorCode } from '../errors.js';
+import { getResultLinks } from '../resources/index.js';
+import { baselineStore } from '../stores/baseline-store.js';
+import { resolveAllowedRoots, resolveLogFiles } from '../files/log-files.js';
 
 // Size threshold for async processing (1MB)
 const ASYNC_THRESHOLD = 1024 * 1024;
 
+// Maximum in-memory input size (MCP_MAX_INPUT_BYTES, default: 200MB); files are streamed
+const MAX_INPUT_BYTES = Number(process.env.MCP_MAX_INPUT_BYTES) || 200 * 1024 * 1024;
+
 export const compressLogsSchema = z.object({
   logs: z.string().describe('Raw log content as a multi-line string'),
   format: z
@@ -48,282 +70,572 @@ export const compressLogsSchema = z.object({
     .boolean()
     .optional()
     .describe('Force async task-based processing for large files'),
+  compare_to_baseline: z
+    .string()
+    .optional()
+    .describe(
+      'Name of a saved baseline; marks each template as known, new, or abnormal in frequency versus the baseline'
+    ),
+  time_bucket: z
+    .string()
+    .regex(/^\d+(ms|s|m|h|d)$/)
+    .refine((value) => (parseDuration(value) ?? 0) >= MIN_TIME_BUCKET_MS, {
+      message: 'time_bucket must be at least 1s',
+    })
+    .optional()
+    .describe(
+      'Histogram bucket size for template timelines, at least 1s, e.g. "30s", "5m", "1h" (default: "1m")'
+    ),
+  detect_anomalies: z
+    .boolean()
+    .optional()
+    .describe('Detect spikes and patterns that start or stop abruptly (needs timestamps)'),
+  max_output_tokens: z
+    .number()
+    .int()
+    .min(200)
+    .optional()
+    .describe(
+      'Fit the output to this many tokens by trimming INFO and warnings first (errors are kept) and lowering threshold if needed'
+    ),
+  tokenizer: z
+    .enum(TOKENIZER_NAMES)
+    .optional()
+    .describe('Tokenizer that max_output_tokens is measured with (default: cl100k_base)'),
+  input_format: z
+    .enum(INPUT_FORMATS)
+    .optional()
+    .describe(
+      'Input format (default: auto, detected from the first lines): text (as-is), ndjson, docker, cri, kubectl, journald, syslog, access_log, or chrome_console'
+    ),
+  message_field: z
+    .string()
+    .optional()
+    .describe('NDJSON field to cluster, dotted paths allowed (default: "message")'),
+  level_field: z
+    .string()
+    .optional()
+    .describe('NDJSON field holding the log level (default: "level")'),
+  attribute_fields: z
+    .array(z.string())
+    .optional()
+    .describe('NDJSON fields to summarize per template (default: all other scalar fields)'),
+  multiline: z
+    .boolean()
+    .optional()
+    .describe(
+      'Group stack traces (JS/Java frames, Caused by chains, Python tracebacks, Go panics) with the line they follow (default: false)'
+    ),
+  source_maps_dir: z
+    .string()
+    .optional()
+    .describe(
+      'Directory of .map files (searched recursively) to resolve minified JavaScript frames to original source; must be within MCP roots or MCP_ALLOWED_ROOTS'
+    ),
+  source_map_files: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Source map (.map) file paths or glob patterns to resolve minified JavaScript frames, within MCP roots or MCP_ALLOWED_ROOTS'
+    ),
+  profile: z
+    .enum(PROFILE_OPTIONS)
+    .optional()
+    .describe(
+      'Classification rule pack: browser, kubernetes, nginx, jvm, postgres, or auto to use the one suggested by the input (default: profile in logpare.config.json, else browser)'
+    ),
+  classification_rules: classificationRulesSchema
+    .optional()
+    .describe(
+      'Rules for criticalPatterns, expectedFailurePatterns, expectedFailureDomains, performancePatterns, and successPatterns; each is a list that replaces the profile rules or {add, remove}. Overrides the same keys in logpare.config.json'
+    ),
 });
 
 export type CompressLogsArgs = z.infer<typeof compressLogsSchema>;
 
 export const compressLogsDescription = `Compress repetitive logs for LLM context windows. Uses the Drain algorithm to extract log templates, achieving 60-90% token reduction while preserving all diagnostic information. Best for large log dumps with repetitive patterns.
 
-For files >1MB, automatically uses async task-based processing (poll for results).`;
+Returns the summary inline plus resource links (logpare://results, templates, stats) for the full data. Set compare_to_baseline to a baseline saved with save_baseline to flag templates that are new or abnormal since a healthy run. Set detect_anomalies to find bursts and patterns that start or stop abruptly (needs timestamped lines). Set max_output_tokens to fit the output to a context budget; the response reports which knobs were adjusted. The input format (JSON lines, Docker, Kubernetes, journald, syslog, access logs, Chrome console) is detected and its prefixes are stripped into per-template attributes; JSON logs are clustered on their message field with severity from the level field. Errors that share an exception type and top stack frames are grouped into issues; set source_maps_dir to resolve minified JavaScript frames. Critical problems, expected failures, performance violations, and success signals follow a rule profile (browser, kubernetes, nginx, jvm, postgres; the output suggests one from the input) and logpare.config.json, overridable with profile and classification_rules. For files >1MB, automatically uses async task-based processing (poll with get_task_status, stop with cancel_task).`;
+
+/**
+ * structuredContent of a compress_logs result: the compression summary
+ * (see TaskResult), the task handle when it runs asynchronously, or an
+ * error. Only the stable fields are listed; the rest pass through.
+ */
+export const compressLogsOutputSchema = z
+  .object({
+    taskId: z.string().optional().describe('Task holding the full result'),
+    status: z
+      .enum(['queued', 'working', 'completed', 'failed', 'cancelled'])
+      .optional()
+      .describe('Status of an async task'),
+    queuePosition: z.number().int().optional(),
+    createdAt: z.string().optional(),
+    pollInterval: z.number().optional(),
+    compressionRatio: z.number().optional(),
+    inputLines: z.number().int().optional(),
+    uniqueTemplates: z.number().int().optional(),
+    estimatedTokenReduction: z.number().optional(),
+    summary: z.record(z.number()).optional().describe('Template counts by category'),
+    templates: z
+      .array(
+        z.object({ id: z.string(), pattern: z.string(), occurrences: z.number() }).passthrough()
+      )
+      .optional(),
+    issues: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            exceptionType: z.string().optional(),
+            message: z.string(),
+            occurrences: z.number(),
+            templates: z.array(z.string()),
+          })
+          .passthrough()
+      )
+      .optional()
+      .describe('Error templates grouped by exception fingerprint'),
+    error: z.object({ code: z.string(), message: z.string() }).optional(),
+  })
+  .passthrough();
 
 /** Tool result type compatible with MCP SDK */
 export interface ToolResult {
-  content: Array<{ type: 'text'; text: string }>;
+  content: Array<{ type: 'text'; text: string } | ResourceLink>;
   structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
 /**
- * Enrich a template with additional diagnostic fields.
+ * Extra per-call hooks supplied by the MCP request context.
+ */
+export interface CompressLogsOptions {
+  /** Forward progress to the client (set when the request has a progressToken) */
+  onProgress?: (progress: TaskProgress) => void;
+  /** file:// URIs from the client's roots/list response */
+  rootUris?: string[];
+  /** HTTP session of the request; tasks it creates are only visible to it */
+  sessionId?: string;
+}
+
+/**
+ * Compression settings shared by compress_logs and compress_log_file.
  */
-function enrichTemplate(t: Template) {
-  const firstSample = t.sampleVariables[0] || [];
-  const numericRange = extractNumericRange(t.sampleVariables);
+export type CompressSettings = Omit<CompressLogsArgs, 'logs'>;
+
+/**
+ * Store a finished synchronous compression as a completed task, so the full
+ * template list stays available via resource links without re-sending the logs.
+ */
+function storeSyncResult(
+  inputBytes: number,
+  output: CompressionOutput,
+  processingTimeMs: number,
+  sessionId?: string
+): ToolResult {
+  const task = taskStore.create({ inputBytes, sessionId });
+  taskStore.complete(task.taskId, {
+    content: [{ type: 'text', text: output.text }],
+    structuredContent: {
+      ...output.structuredContent,
+      processingTimeMs,
+    },
+    examples: output.examples,
+    runTemplates: output.runTemplates,
+  });
 
   return {
-    id: t.id,
-    pattern: t.pattern,
-    occurrences: t.occurrences,
-    severity: t.severity,
-    isStackFrame: t.isStackFrame,
-    // New enriched fields
-    hydratedExample: hydratePattern(t.pattern, firstSample),
-    isExpectedFailure: isExpectedFailure(t),
-    isPerformanceViolation: isPerformanceViolation(t),
-    // URL samples
-    urlSamples: t.urlSamples,
-    fullUrlSamples: t.fullUrlSamples || [],
-    // New extraction fields
-    statusCodeSamples: t.statusCodeSamples || [],
-    correlationIdSamples: t.correlationIdSamples || [],
-    durationSamples: t.durationSamples || [],
-    // Numeric range if applicable
-    numericRange: numericRange
-      ? {
-          min: numericRange.min,
-          max: numericRange.max,
-          avg: numericRange.avg,
-          unit: numericRange.unit,
-        }
-      : null,
-    // Sample variables
-    sampleVariables: t.sampleVariables,
-    // Temporal info
-    firstSeen: t.firstSeen,
-    lastSeen: t.lastSeen,
+    content: [{ type: 'text', text: output.text }, ...getResultLinks(task.taskId)],
+    structuredContent: {
+      taskId: task.taskId,
+      ...output.structuredContent,
+    },
   };
 }
 
 /**
- * Generate summary counts for structured content.
+ * NDJSON field mapping from tool arguments, also used for JSON messages
+ * inside container logs.
  */
-function generateSummary(templates: Template[]) {
-  const allErrors = templates.filter((t) => t.severity === 'error' && !t.isStackFrame);
-  const warnings = templates.filter((t) => t.severity === 'warning' && !t.isStackFrame);
-
+export function toNdjsonMapping(
+  args: Pick<CompressSettings, 'message_field' | 'level_field' | 'attribute_fields'>
+): NdjsonMapping {
   return {
-    userImpactingErrors: allErrors.filter((t) => !isExpectedFailure(t)).length,
-    expectedFailures: allErrors.filter((t) => isExpectedFailure(t)).length,
-    performanceViolations: warnings.filter((t) => isPerformanceViolation(t)).length,
-    otherWarnings: warnings.filter((t) => !isPerformanceViolation(t)).length,
-    infoPatterns: templates.filter((t) => t.severity === 'info' && !t.isStackFrame).length,
-    stackTracePatterns: templates.filter((t) => t.isStackFrame).length,
+    messageField: args.message_field ?? DEFAULT_MESSAGE_FIELD,
+    levelField: args.level_field ?? DEFAULT_LEVEL_FIELD,
+    attributeFields: args.attribute_fields,
   };
 }
 
 /**
- * Synchronous compression handler.
+ * Apply defaults to compression settings and load the baseline, if any.
+ * Throws CompressionError('BASELINE_NOT_FOUND') for an unknown baseline and
+ * CompressionError('INVALID_CONFIG') for invalid classification rules.
  */
-function compressSync(args: CompressLogsArgs): ToolResult {
+function toCompressionOptions(settings: CompressSettings): CompressionOptions {
   const {
-    logs,
     format = 'smart',
     max_templates = 50,
     depth,
     threshold,
-  } = args;
+    compare_to_baseline,
+    time_bucket,
+    detect_anomalies = false,
+    max_output_tokens,
+    tokenizer,
+    input_format = 'auto',
+    multiline = false,
+    profile,
+    classification_rules,
+  } = settings;
+
+  let baseline: CompressionOptions['baseline'];
+  if (compare_to_baseline !== undefined) {
+    const saved = baselineStore.get(compare_to_baseline);
+    if (!saved) {
+      throw new CompressionError(
+        'BASELINE_NOT_FOUND',
+        `Baseline "${compare_to_baseline}" not found. Save one with save_baseline.`
+      );
+    }
+    baseline = { name: saved.name, inputLines: saved.inputLines, templates: saved.templates };
+  }
 
+  return {
+    format,
+    maxTemplates: max_templates,
+    depth,
+    threshold,
+    baseline,
+    timeBucketMs: time_bucket !== undefined ? parseDuration(time_bucket) : undefined,
+    detectAnomalies: detect_anomalies,
+    maxOutputTokens: max_output_tokens,
+    tokenizer,
+    inputFormat: input_format,
+    ndjson: toNdjsonMapping(settings),
+    multiline,
+    ...resolveClassificationSettings(classification_rules, profile),
+  };
+}
+
+/**
+ * Find the source map files named by source_maps_dir and source_map_files.
+ * Reads are restricted to the allowed roots, as for compress_log_file.
+ */
+async function resolveSourceMapFiles(
+  settings: CompressSettings,
+  rootUris: string[] | undefined
+): Promise<string[] | undefined> {
+  const { source_maps_dir, source_map_files = [] } = settings;
+  const patterns = [
+    ...(source_maps_dir !== undefined ? [join(source_maps_dir, '**', '*.map')] : []),
+    ...source_map_files,
+  ];
+  if (patterns.length === 0) return undefined;
+
+  return resolveLogFiles(patterns, await resolveAllowedRoots(rootUris));
+}
+
+/**
+ * Synchronous compression handler (runs on the main thread).
+ */
+async function compressSync(
+  source: LogSource,
+  options: CompressionOptions,
+  inputBytes: number,
+  sessionId?: string
+): Promise<ToolResult> {
   try {
-    // 'smart' format is MCP-specific; internally use 'detailed' from logpare
-    // and post-process with formatSmart() for LLM-optimized output
-    const internalFormat = format === 'smart' ? 'detailed' : format;
-
-    const result = compressText(logs, {
-      format: internalFormat,
-      maxTemplates: max_templates,
-      drain: {
-        ...(depth !== undefined && { depth }),
-        ...(threshold !== undefined && { simThreshold: threshold }),
-      },
-    });
+    const startTime = performance.now();
+    const output = await runCompression(source, options);
+    const processingTimeMs = Math.round(performance.now() - startTime);
 
-    // Apply smart formatting if requested
-    const outputText =
-      format === 'smart'
-        ? formatSmart(result.templates, result.stats)
-        : result.formatted;
-
-    const limitedTemplates = result.templates.slice(0, max_templates);
-
-    return {
-      content: [{ type: 'text', text: outputText }],
-      structuredContent: {
-        compressionRatio: result.stats.compressionRatio,
-        inputLines: result.stats.inputLines,
-        uniqueTemplates: result.stats.uniqueTemplates,
-        estimatedTokenReduction: result.stats.estimatedTokenReduction,
-        summary: generateSummary(result.templates),
-        templates: limitedTemplates.map(enrichTemplate),
-      },
-    };
+    return storeSyncResult(inputBytes, output, processingTimeMs, sessionId);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return {
-      content: [{ type: 'text', text: `Error compressing logs: ${message}` }],
-      isError: true,
-    };
+    return errorResult(getErrorCode(error), message);
   }
 }
 
 /**
- * Map logpare ProgressEvent to TaskProgress.
+ * Synchronous compression with progress reporting.
+ * Runs on a worker thread and awaits the result, so progress notifications
+ * reach the client while Drain runs instead of after it finishes.
  */
-function mapProgress(event: ProgressEvent): TaskProgress {
-  // Map logpare phases to task phases
-  const phaseMap: Record<ProgressEvent['currentPhase'], TaskProgress['currentPhase']> = {
-    parsing: 'parsing',
-    clustering: 'clustering',
-    finalizing: 'finalizing',
-  };
+async function compressSyncWithProgress(
+  source: LogSource,
+  options: CompressionOptions,
+  inputBytes: number,
+  onProgress: (progress: TaskProgress) => void,
+  sessionId?: string
+): Promise<ToolResult> {
+  const limitError = checkTaskLimits(source, inputBytes);
+  if (limitError) {
+    return errorResult(limitError.code, limitError.message);
+  }
+
+  // Progress for a request is only valid until its response is sent
+  let open = true;
+
+  try {
+    const { output, processingTimeMs } = await compressionPool.run(
+      // Sync jobs have no task; use a unique job ID for the pool
+      `sync-${randomUUID()}`,
+      source,
+      options,
+      {
+        onQueued: () => {},
+        onStart: () => {},
+        onProgress: (progress) => {
+          if (open) onProgress(progress);
+        },
+      }
+    );
 
-  const totalLines = event.totalLines ?? 0;
-  const processedLines = event.processedLines;
-  const percent = event.percentComplete ?? (totalLines > 0 ? Math.round((processedLines / totalLines) * 100) : 0);
+    return storeSyncResult(inputBytes, output, processingTimeMs, sessionId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(getErrorCode(error), message);
+  } finally {
+    open = false;
+  }
+}
 
+/**
+ * Build an error result with a machine-readable code.
+ */
+export function errorResult(code: ErrorCode, message: string): ToolResult {
   return {
-    percent,
-    statusMessage: `Processing ${processedLines.toLocaleString()}${totalLines ? ` / ${totalLines.toLocaleString()}` : ''} lines`,
-    currentPhase: phaseMap[event.currentPhase],
-    processedLines,
-    totalLines: totalLines || undefined,
+    content: [{ type: 'text', text: `Error compressing logs (${code}): ${message}` }],
+    structuredContent: { error: { code, message } },
+    isError: true,
   };
 }
 
 /**
- * Start async compression task.
+ * Check input size and queue capacity before creating a task.
+ * Only in-memory text is size-limited; file sources are streamed.
+ * Returns a CompressionError describing the limit hit, if any.
  */
-function startAsyncCompression(args: CompressLogsArgs): ToolResult {
-  const task = taskStore.create();
-  const taskId = task.taskId;
+function checkTaskLimits(source: LogSource, inputBytes: number): CompressionError | undefined {
+  if (source.type === 'text' && inputBytes > MAX_INPUT_BYTES) {
+    return new CompressionError(
+      'INPUT_TOO_LARGE',
+      `Input is ${inputBytes.toLocaleString()} bytes; the limit is ${MAX_INPUT_BYTES.toLocaleString()} bytes`
+    );
+  }
 
-  // Run compression in background with error boundary
-  setImmediate(() => {
-    (async () => {
-      // Check for cancellation before starting
-      if (taskStore.isCancelled(taskId)) {
-        return;
-      }
+  if (compressionPool.isFull()) {
+    return new CompressionError('QUEUE_FULL', 'Too many compression tasks are pending. Retry later.');
+  }
 
-      const startTime = performance.now();
-      const {
-        logs,
-        format = 'smart',
-        max_templates = 50,
-        depth,
-        threshold,
-      } = args;
-
-      try {
-        // 'smart' format is MCP-specific; internally use 'detailed' from logpare
-        // and post-process with formatSmart() for LLM-optimized output
-        const internalFormat = format === 'smart' ? 'detailed' : format;
-
-        const result = compressText(logs, {
-          format: internalFormat,
-          maxTemplates: max_templates,
-          drain: {
-            ...(depth !== undefined && { depth }),
-            ...(threshold !== undefined && { simThreshold: threshold }),
-            // Wire progress callback to task store
-            onProgress: (event: ProgressEvent) => {
-              // Check for cancellation during processing
-              if (taskStore.isCancelled(taskId)) {
-                // Note: We can't actually stop the Drain algorithm mid-processing,
-                // but we can stop updating progress and skip completion
-                return;
-              }
-              taskStore.updateProgress(taskId, mapProgress(event));
-            },
-          },
-        });
-
-        // Apply smart formatting if requested
-        const outputText =
-          format === 'smart'
-            ? formatSmart(result.templates, result.stats)
-            : result.formatted;
-
-        const processingTimeMs = Math.round(performance.now() - startTime);
-        const limitedTemplates = result.templates.slice(0, max_templates);
-
-        // Check for cancellation before completing
-        if (taskStore.isCancelled(taskId)) {
-          return;
-        }
-
-        const taskResult: TaskResult = {
-          content: [{ type: 'text', text: outputText }],
-          structuredContent: {
-            compressionRatio: result.stats.compressionRatio,
-            inputLines: result.stats.inputLines,
-            uniqueTemplates: result.stats.uniqueTemplates,
-            estimatedTokenReduction: result.stats.estimatedTokenReduction,
-            summary: generateSummary(result.templates),
-            templates: limitedTemplates.map(enrichTemplate),
-            processingTimeMs,
-          },
-        };
-
-        taskStore.complete(taskId, taskResult);
-      } catch (error) {
-        // Don't report errors for cancelled tasks
-        if (taskStore.isCancelled(taskId)) {
-          return;
-        }
-        const message = error instanceof Error ? error.message : 'Unknown error';
-
-        // Determine specific error code based on error type
-        let code = 'COMPRESSION_FAILED';
-        if (message.includes('empty') || message.includes('invalid')) {
-          code = 'INVALID_INPUT';
-        } else if (message.includes('memory') || message.includes('heap')) {
-          code = 'INPUT_TOO_LARGE';
-        }
-
-        taskStore.fail(taskId, { code, message });
+  return undefined;
+}
+
+/**
+ * Run compression on a worker thread for an existing queued task.
+ * The Drain algorithm runs off the main thread so large inputs don't block
+ * other stdio/HTTP requests; cancelling the task terminates the worker.
+ */
+function runCompressionTask(
+  taskId: string,
+  source: LogSource,
+  options: CompressionOptions,
+  onProgress?: (progress: TaskProgress) => void
+): void {
+  taskStore.onCancel(taskId, () => compressionPool.cancel(taskId));
+
+  compressionPool
+    .run(taskId, source, options, {
+      onQueued: (position) => taskStore.setQueuePosition(taskId, position),
+      onStart: () => taskStore.start(taskId),
+      onProgress: (progress) => {
+        taskStore.updateProgress(taskId, progress);
+        onProgress?.(progress);
+      },
+    })
+    .then(({ output, processingTimeMs }) => {
+      // A cancel that raced with the worker finishing wins
+      if (taskStore.isCancelled(taskId)) return;
+
+      const taskResult: TaskResult = {
+        content: [{ type: 'text', text: output.text }],
+        structuredContent: {
+          ...output.structuredContent,
+          processingTimeMs,
+        },
+        examples: output.examples,
+        runTemplates: output.runTemplates,
+      };
+
+      taskStore.complete(taskId, taskResult);
+    })
+    .catch((error) => {
+      // Don't report errors for cancelled tasks
+      if (error instanceof JobCancelledError || taskStore.isCancelled(taskId)) {
+        return;
       }
-    })().catch((error) => {
-      // Ultimate fallback - should never reach here
-      console.error('[logpare-mcp] Unexpected error in async compression:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      taskStore.fail(taskId, { code: getErrorCode(error), message });
     });
-  });
+}
+
+/**
+ * Cluster raw logs the way compress_logs does, on a worker thread, for
+ * tools that compare runs (every template is in output.runTemplates).
+ * Throws CompressionError('INPUT_TOO_LARGE' or 'QUEUE_FULL') when a limit
+ * is hit.
+ */
+export async function clusterLogs(
+  logs: string,
+  settings: CompressSettings
+): Promise<CompressionOutput> {
+  const source: LogSource = { type: 'text', logs };
+  const limitError = checkTaskLimits(source, Buffer.byteLength(logs));
+  if (limitError) throw limitError;
+
+  const { output } = await compressionPool.run(
+    `run-${randomUUID()}`,
+    source,
+    { ...toCompressionOptions(settings), maxExamplesPerTemplate: 0 },
+    { onQueued: () => {}, onStart: () => {}, onProgress: () => {} }
+  );
+  return output;
+}
+
+/**
+ * Start async compression task (legacy use_task convention).
+ * Returns the task ID immediately; clients poll with get_task_status.
+ * Progress isn't forwarded: the request is answered before the task runs,
+ * and get_task_status reports it instead.
+ */
+function startAsyncCompression(
+  source: LogSource,
+  options: CompressionOptions,
+  inputBytes: number,
+  sessionId?: string
+): ToolResult {
+  const limitError = checkTaskLimits(source, inputBytes);
+  if (limitError) {
+    return errorResult(limitError.code, limitError.message);
+  }
+
+  const task = taskStore.create({ status: 'queued', inputBytes, sessionId });
+  const taskId = task.taskId;
+
+  runCompressionTask(taskId, source, options);
+
+  // The pool starts the job synchronously when a worker is free
+  const current = taskStore.get(taskId) ?? task;
+  const queueNote =
+    current.status === 'queued'
+      ? ` Queued at position ${current.queuePosition}.`
+      : '';
 
   return {
     content: [
       {
         type: 'text',
-        text: `Compression task started. Task ID: ${task.taskId}\n\nPoll for status using the task ID. Estimated completion: a few seconds.`,
+        text: `Compression task started. Task ID: ${taskId}${queueNote}\n\nPoll for status with get_task_status using the task ID. Estimated completion: a few seconds.`,
       },
     ],
     structuredContent: {
-      taskId: task.taskId,
-      status: 'working',
-      createdAt: task.createdAt,
-      pollInterval: task.pollInterval,
+      taskId,
+      status: current.status,
+      ...(current.queuePosition !== undefined && { queuePosition: current.queuePosition }),
+      createdAt: current.createdAt,
+      pollInterval: current.pollInterval,
     },
   };
 }
 
 /**
- * Main handler for compress_logs tool.
+ * Start compression for a task created through the MCP tasks protocol
+ * (task-augmented tools/call). Results are read via tasks/result.
+ * Limit violations fail the task instead of returning an error result.
+ * Resolves once the task is started (or failed).
  */
-export function handleCompressLogs(args: CompressLogsArgs): ToolResult {
+export async function startProtocolTask(
+  taskId: string,
+  args: CompressLogsArgs,
+  options: CompressLogsOptions = {}
+): Promise<void> {
+  const { logs, ...settings } = args;
+  const source: LogSource = { type: 'text', logs };
+  const inputBytes = Buffer.byteLength(logs);
+
+  let compression: CompressionOptions;
+  try {
+    compression = {
+      ...toCompressionOptions(settings),
+      sourceMaps: await resolveSourceMapFiles(settings, options.rootUris),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    taskStore.fail(taskId, { code: getErrorCode(error), message });
+    return;
+  }
+
+  const limitError = checkTaskLimits(source, inputBytes);
+  if (limitError) {
+    taskStore.fail(taskId, { code: limitError.code, message: limitError.message });
+    return;
+  }
+
+  taskStore.update(taskId, { inputBytes });
+  runCompressionTask(taskId, source, compression, options.onProgress);
+}
+
+/**
+ * Compress any log source: routes to async tasks for large inputs or
+ * use_task, and to a worker when progress is requested.
+ */
+export async function compressSource(
+  source: LogSource,
+  settings: CompressSettings,
+  options: CompressLogsOptions = {}
+): Promise<ToolResult> {
+  let compression: CompressionOptions;
+  try {
+    compression = {
+      ...toCompressionOptions(settings),
+      sourceMaps: await resolveSourceMapFiles(settings, options.rootUris),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return errorResult(getErrorCode(error), message);
+  }
+
+  const inputBytes = await getSourceSize(source);
+
   // Route to async if explicitly requested or input is large
-  const useAsync = args.use_task === true || args.logs.length > ASYNC_THRESHOLD;
+  const useAsync = settings.use_task === true || inputBytes > ASYNC_THRESHOLD;
 
   if (useAsync) {
-    return startAsyncCompression(args);
+    return startAsyncCompression(source, compression, inputBytes, options.sessionId);
+  }
+
+  if (options.onProgress) {
+    return compressSyncWithProgress(
+      source,
+      compression,
+      inputBytes,
+      options.onProgress,
+      options.sessionId
+    );
   }
 
-  return compressSync(args);
+  return compressSync(source, compression, inputBytes, options.sessionId);
+}
+
+/**
+ * Main handler for compress_logs tool.
+ */
+export async function handleCompressLogs(
+  args: CompressLogsArgs,
+  options: CompressLogsOptions = {}
+): Promise<ToolResult> {
+  const { logs, ...settings } = args;
+  return compressSource({ type: 'text', logs }, settings, options);
 }
@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { getErrorCode } from '../errors.js';
+import { taskStore } from '../stores/task-store.js';
+import { clusterLogs, type ToolResult } from './compress.js';
+import {
+  diffRuns,
+  profileFromOutput,
+  profileFromTaskResult,
+  type DiffEntry,
+  type RunProfile,
+} from '../pipeline/diff.js';
+import { formatDiff } from '../formats/diff.js';
+import { compileClassificationRules, loadConfigFile } from '../pipeline/classification.js';
+import { DETECTION_SAMPLE_LINES, resolveLogInput } from '../pipeline/log-formats.js';
+import { resolveProfile, suggestProfile, type RuleProfile } from '../pipeline/profiles.js';
+
+export const diffLogRunsSchema = z.object({
+  before_logs: z.string().optional().describe('Raw logs of the earlier (e.g. passing) run'),
+  before_task_id: z
+    .string()
+    .optional()
+    .describe('Task ID of a completed compression of the earlier run'),
+  after_logs: z.string().optional().describe('Raw logs of the later (e.g. failing) run'),
+  after_task_id: z
+    .string()
+    .optional()
+    .describe('Task ID of a completed compression of the later run'),
+  shift_threshold: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('Minimum change in occurrences per line (either direction) reported as a shift (default: 2)'),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Similarity threshold for the shared template set (default: 0.4)'),
+});
+
+export type DiffLogRunsArgs = z.infer<typeof diffLogRunsSchema>;
+
+const runSummarySchema = z.object({
+  source: z.string(),
+  inputLines: z.number().int(),
+  templates: z.number().int(),
+});
+
+const diffEntrySchema = z
+  .object({
+    pattern: z.string(),
+    severity: z.string(),
+    isStackFrame: z.boolean(),
+    isExpectedFailure: z.boolean(),
+    changeRatio: z.number().nullable(),
+    severityChanged: z.boolean(),
+  })
+  .passthrough();
+
+/** structuredContent of a diff_log_runs result (error results carry only error) */
+export const diffLogRunsOutputSchema = z
+  .object({
+    before: runSummarySchema.optional(),
+    after: runSummarySchema.optional(),
+    sharedTemplates: z.number().int().optional(),
+    summary: z.record(z.number()).optional().describe('Template counts by change'),
+    appeared: z.array(diffEntrySchema).optional(),
+    disappeared: z.array(diffEntrySchema).optional(),
+    shifted: z.array(diffEntrySchema).optional(),
+    error: z.object({ code: z.string(), message: z.string() }).optional(),
+  })
+  .passthrough();
+
+export const diffLogRunsDescription = `Compare two log runs template-by-template, e.g. a passing build against a failing one. Each side is raw logs or the task ID of a completed compress_logs call. Both runs are clustered against a shared template set and the output lists templates that appeared, disappeared, or shifted significantly in frequency or severity, grouped by severity like the smart format. Raw logs are clustered like compress_logs input (format detection, same size limit); task ID inputs include every template of the run, not only max_templates.`;
+
+/**
+ * Load one side of the diff from raw logs or a completed task.
+ * Raw logs go through the compress_logs pipeline (input format detection,
+ * on a worker, size-limited) so they cluster like a task's input did.
+ * Returns an error message when the input is missing or unusable.
+ */
+async function loadRun(
+  side: 'before' | 'after',
+  logs: string | undefined,
+  taskId: string | undefined,
+  threshold: number | undefined,
+  sessionId: string | undefined
+): Promise<RunProfile | string> {
+  if ((logs === undefined) === (taskId === undefined)) {
+    return `Provide exactly one of ${side}_logs or ${side}_task_id`;
+  }
+
+  if (logs !== undefined) {
+    return profileFromOutput(await clusterLogs(logs, { format: 'json', threshold }));
+  }
+
+  const task = taskStore.getForSession(taskId!, sessionId);
+  if (!task) {
+    return `Task ${taskId} not found (it may have expired)`;
+  }
+  if (task.status !== 'completed' || !task.result) {
+    return `Task ${taskId} has no result (status: ${task.status})`;
+  }
+  return profileFromTaskResult(task.taskId, task.result);
+}
+
+/**
+ * Structured form of a diff entry.
+ */
+function describeEntry(entry: DiffEntry) {
+  return {
+    pattern: entry.pattern,
+    severity: entry.severity,
+    isStackFrame: entry.isStackFrame,
+    isExpectedFailure: entry.isExpectedFailure,
+    before: entry.before,
+    after: entry.after,
+    changeRatio: entry.changeRatio,
+    severityChanged: entry.severityChanged,
+  };
+}
+
+/**
+ * Profile a run suggests, for profile: "auto" in the config file: from the
+ * first lines of raw logs, or the profile a task was compressed with.
+ */
+function suggestRunProfile(
+  logs: string | undefined,
+  taskId: string | undefined,
+  sessionId: string | undefined
+): RuleProfile | undefined {
+  if (logs === undefined) {
+    return taskStore.getForSession(taskId!, sessionId)?.result?.structuredContent.profile
+      ?.profile;
+  }
+  const sample = logs
+    .split('\n', DETECTION_SAMPLE_LINES * 2)
+    .filter((line) => line.trim())
+    .slice(0, DETECTION_SAMPLE_LINES);
+  return suggestProfile(resolveLogInput('auto', sample), sample);
+}
+
+/**
+ * Handler for diff_log_runs tool.
+ * Task IDs must belong to the caller's HTTP session (sessionId).
+ */
+export async function handleDiffLogRuns(
+  args: DiffLogRunsArgs,
+  sessionId?: string
+): Promise<ToolResult> {
+  const { shift_threshold = 2, threshold } = args;
+
+  try {
+    const before = await loadRun(
+      'before',
+      args.before_logs,
+      args.before_task_id,
+      threshold,
+      sessionId
+    );
+    const after = await loadRun('after', args.after_logs, args.after_task_id, threshold, sessionId);
+
+    if (typeof before === 'string' || typeof after === 'string') {
+      const message = typeof before === 'string' ? before : (after as string);
+      return {
+        content: [{ type: 'text', text: `Error diffing log runs: ${message}` }],
+        isError: true,
+      };
+    }
+
+    // Rules from the config file; the later run decides an automatic profile
+    const config = loadConfigFile();
+    const suggested =
+      config.profile === 'auto'
+        ? suggestRunProfile(args.after_logs, args.after_task_id, sessionId)
+        : undefined;
+    const { profile } = resolveProfile(config.profile, suggested);
+    const classification = compileClassificationRules(config.classification, profile);
+    const diff = diffRuns(before, after, {
+      shiftThreshold: shift_threshold,
+      threshold,
+      classification,
+    });
+
+    return {
+      content: [{ type: 'text', text: formatDiff(diff, classification, profile) }],
+      structuredContent: {
+        before: diff.before,
+        after: diff.after,
+        sharedTemplates: diff.sharedTemplates,
+        summary: {
+          appeared: diff.appeared.length,
+          disappeared: diff.disappeared.length,
+          shifted: diff.shifted.length,
+          unchanged: diff.unchanged,
+        },
+        appeared: diff.appeared.map(describeEntry),
+        disappeared: diff.disappeared.map(describeEntry),
+        shifted: diff.shifted.map(describeEntry),
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const code = getErrorCode(error);
+    return {
+      content: [{ type: 'text', text: `Error diffing log runs (${code}): ${message}` }],
+      structuredContent: { error: { code, message } },
+      isError: true,
+    };
+  }
+}
@@ -1,13 +1,21 @@
 import { z } from 'zod';
-import { compressText } from 'logpare';
+import { createDrain } from 'logpare';
+import { addLinesInBatches, iterateLines } from '../pipeline/source.js';
+import { loadTokenizer, TOKENIZER_NAMES } from '../pipeline/tokenizer.js';
 
 export const estimateCompressionSchema = z.object({
   logs: z.string().describe('Raw log content to estimate compression for'),
+  tokenizer: z
+    .enum(TOKENIZER_NAMES)
+    .optional()
+    .describe(
+      'Tokenizer to count tokens with: cl100k_base (default), o200k_base, p50k_base, or chars (characters / 4)'
+    ),
 });
 
 export type EstimateCompressionArgs = z.infer<typeof estimateCompressionSchema>;
 
-export const estimateCompressionDescription = `Quickly estimate compression ratio without returning the full compressed output. Use this to check if a log dump is worth compressing before running full compression.`;
+export const estimateCompressionDescription = `Quickly estimate compression ratio without returning the full compressed output. Use this to check if a log dump is worth compressing before running full compression. Tokens are counted with a real BPE tokenizer (pick one with tokenizer; "chars" falls back to characters / 4).`;
 
 /** Tool result type compatible with MCP SDK */
 export interface ToolResult {
@@ -19,24 +27,29 @@ export interface ToolResult {
 /**
  * Handler for estimate_compression tool.
  */
-export function handleEstimateCompression(args: EstimateCompressionArgs): ToolResult {
+export async function handleEstimateCompression(
+  args: EstimateCompressionArgs
+): Promise<ToolResult> {
   const { logs } = args;
 
   try {
-    const lines = logs.split(/\r?\n/).filter((line) => line.trim());
+    const tokenizer = await loadTokenizer(args.tokenizer);
 
-    if (lines.length === 0) {
+    // Stream lines into Drain instead of splitting the whole input
+    const drain = createDrain();
+    const lineCount = addLinesInBatches(drain, iterateLines(logs));
+
+    if (lineCount === 0) {
       return {
         content: [{ type: 'text', text: 'No log lines found.' }],
       };
     }
 
-    const result = compressText(logs, { format: 'json' });
+    const result = drain.getResult('json');
     const stats = result.stats;
 
-    // Rough token estimate (chars / 4 is a common approximation)
-    const originalTokens = Math.ceil(logs.length / 4);
-    const compressedTokens = Math.ceil(result.formatted.length / 4);
+    const originalTokens = tokenizer.count(logs);
+    const compressedTokens = tokenizer.count(result.formatted);
     const tokensSaved = originalTokens - compressedTokens;
     const tokenReductionPercent = ((tokensSaved / originalTokens) * 100).toFixed(1);
 
@@ -62,7 +75,7 @@ export function handleEstimateCompression(args: EstimateCompressionArgs): ToolRe
       `Templates: ${stats.uniqueTemplates} unique patterns`,
       `Compression ratio: ${(stats.compressionRatio * 100).toFixed(1)}%`,
       '',
-      'Estimated tokens:',
+      `Estimated tokens (${tokenizer.name}):`,
       `  Original: ~${originalTokens.toLocaleString()}`,
       `  Compressed: ~${compressedTokens.toLocaleString()}`,
       `  Savings: ~${tokensSaved.toLocaleString()} tokens (${tokenReductionPercent}%)`,
@@ -77,6 +90,7 @@ export function handleEstimateCompression(args: EstimateCompressionArgs): ToolRe
         uniqueTemplates: stats.uniqueTemplates,
         compressionRatio: stats.compressionRatio,
         estimatedTokenReduction: stats.estimatedTokenReduction,
+        tokenizer: tokenizer.name,
         originalTokensEstimate: originalTokens,
         compressedTokensEstimate: compressedTokens,
         tokensSavedEstimate: tokensSaved,
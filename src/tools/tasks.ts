@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { taskStore, type TaskState } from '../stores/task-store.js';
+import { getResultUris } from '../resources/index.js';
+
+export const getTaskStatusSchema = z.object({
+  task_id: z.string().describe('Task ID returned by compress_logs'),
+});
+
+export type GetTaskStatusArgs = z.infer<typeof getTaskStatusSchema>;
+
+export const getTaskStatusDescription = `Check the status of an async compression task started by compress_logs. Returns the current status, queue position, progress (phase, percent, line counts), any error, and resource URIs for the full result once the task has completed.`;
+
+export const cancelTaskSchema = z.object({
+  task_id: z.string().describe('Task ID returned by compress_logs'),
+});
+
+export type CancelTaskArgs = z.infer<typeof cancelTaskSchema>;
+
+export const cancelTaskDescription = `Cancel a running async compression task. Only tasks with status 'queued' or 'working' can be cancelled.`;
+
+/** structuredContent of get_task_status and cancel_task results (see describeTask) */
+export const taskStatusOutputSchema = z.object({
+  taskId: z.string(),
+  status: z.enum(['queued', 'working', 'completed', 'failed', 'cancelled']),
+  createdAt: z.string(),
+  lastUpdatedAt: z.string(),
+  pollInterval: z.number(),
+  queuePosition: z.number().int().nullable(),
+  progress: z
+    .object({
+      percent: z.number(),
+      statusMessage: z.string(),
+      currentPhase: z.enum(['parsing', 'clustering', 'finalizing']),
+      processedLines: z.number().int().optional(),
+      totalLines: z.number().int().optional(),
+    })
+    .nullable(),
+  error: z.object({ code: z.string(), message: z.string() }).nullable(),
+  resultUris: z
+    .object({ result: z.string(), templates: z.string(), stats: z.string() })
+    .nullable()
+    .describe('Resources holding the full result, once completed'),
+});
+
+/** Tool result type compatible with MCP SDK */
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Build structured status content for a task.
+ */
+function describeTask(task: TaskState) {
+  return {
+    taskId: task.taskId,
+    status: task.status,
+    createdAt: task.createdAt,
+    lastUpdatedAt: task.lastUpdatedAt,
+    pollInterval: task.pollInterval,
+    queuePosition: task.queuePosition ?? null,
+    progress: task.progress ?? null,
+    error: task.error ?? null,
+    resultUris: task.status === 'completed' ? getResultUris(task.taskId) : null,
+  };
+}
+
+/**
+ * Handler for get_task_status tool.
+ * Tasks of other HTTP sessions are reported as not found.
+ */
+export function handleGetTaskStatus(args: GetTaskStatusArgs, sessionId?: string): ToolResult {
+  const { task_id } = args;
+  const task = taskStore.getForSession(task_id, sessionId);
+
+  if (!task) {
+    return {
+      content: [{ type: 'text', text: `Task ${task_id} not found. It may have expired.` }],
+      isError: true,
+    };
+  }
+
+  const lines: string[] = [`Task ${task.taskId}: ${task.status}`];
+
+  if (task.status === 'queued') {
+    lines.push(`Waiting for a free worker (queue position ${task.queuePosition ?? '?'})`);
+    lines.push('', `Poll again in ${task.pollInterval}ms.`);
+  } else if (task.status === 'working') {
+    if (task.progress) {
+      lines.push(
+        `Phase: ${task.progress.currentPhase} (${task.progress.percent}%)`,
+        task.progress.statusMessage
+      );
+    }
+    lines.push('', `Poll again in ${task.pollInterval}ms.`);
+  } else if (task.status === 'completed') {
+    const uris = getResultUris(task.taskId);
+    lines.push(
+      '',
+      'Result available via resources:',
+      `  ${uris.result} (full result)`,
+      `  ${uris.templates} (templates only)`,
+      `  ${uris.stats} (statistics only)`
+    );
+    if (task.result) {
+      lines.push('', ...task.result.content.map((c) => c.text));
+    }
+  } else if (task.error) {
+    lines.push(`${task.error.code}: ${task.error.message}`);
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: describeTask(task),
+  };
+}
+
+/**
+ * Handler for cancel_task tool.
+ * Tasks of other HTTP sessions are reported as not found.
+ */
+export function handleCancelTask(args: CancelTaskArgs, sessionId?: string): ToolResult {
+  const { task_id } = args;
+  const existing = taskStore.getForSession(task_id, sessionId);
+
+  if (!existing) {
+    return {
+      content: [{ type: 'text', text: `Task ${task_id} not found. It may have expired.` }],
+      isError: true,
+    };
+  }
+
+  const task = taskStore.cancel(task_id);
+
+  if (!task) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Task ${task_id} cannot be cancelled (status: ${existing.status}).`,
+        },
+      ],
+      structuredContent: describeTask(existing),
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Task ${task_id} cancelled.` }],
+    structuredContent: describeTask(task),
+  };
+}
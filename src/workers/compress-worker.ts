@@ -0,0 +1,42 @@
+import { parentPort } from 'node:worker_threads';
+import { runCompression } from '../pipeline/compress.js';
+import { getErrorCode } from '../errors.js';
+import type { WorkerRequest, WorkerResponse } from './pool.js';
+
+/**
+ * Worker thread entry point for async compression tasks.
+ *
+ * Runs the Drain pipeline off the main event loop and streams progress
+ * back to the pool. The pool terminates this thread to cancel a job.
+ */
+if (!parentPort) {
+  throw new Error('compress-worker must be run as a worker thread');
+}
+
+const port = parentPort;
+
+function send(message: WorkerResponse): void {
+  port.postMessage(message);
+}
+
+port.on('message', async (request: WorkerRequest) => {
+  const { jobId, source, options } = request;
+  const startTime = performance.now();
+
+  try {
+    // File sources are streamed from disk here, off the main thread
+    const output = await runCompression(source, options, (progress) => {
+      send({ type: 'progress', jobId, progress });
+    });
+
+    send({
+      type: 'result',
+      jobId,
+      output,
+      processingTimeMs: Math.round(performance.now() - startTime),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    send({ type: 'error', jobId, code: getErrorCode(error), message });
+  }
+});
@@ -0,0 +1,77 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { CompressionError } from '../errors.js';
+import type { CompressionOptions } from '../pipeline/compress.js';
+
+// Read when pool.js loads; a small heap makes the out-of-memory case quick
+process.env.MCP_WORKER_MAX_MEMORY_MB = '32';
+const { CompressionWorkerPool, JobCancelledError } = await import('./pool.js');
+
+// Stand-in worker: the job ID prefix picks the behavior
+const dir = mkdtempSync(join(tmpdir(), 'logpare-pool-'));
+const workerPath = join(dir, 'worker.mjs');
+writeFileSync(
+  workerPath,
+  `import { parentPort } from 'node:worker_threads';
+parentPort.on('message', ({ jobId }) => {
+  if (jobId.startsWith('ok')) {
+    parentPort.postMessage({ type: 'result', jobId, output: { text: jobId }, processingTimeMs: 1 });
+  } else if (jobId.startsWith('oom')) {
+    const hoard = [];
+    for (;;) hoard.push(new Array(1e6).fill(hoard.length));
+  }
+  // Anything else runs until cancelled
+});
+`
+);
+const workerUrl = pathToFileURL(workerPath);
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const source = { type: 'text' as const, logs: '' };
+const options: CompressionOptions = { format: 'json', maxTemplates: 1 };
+const callbacks = { onQueued: () => {}, onStart: () => {}, onProgress: () => {} };
+
+test('rejects jobs with QUEUE_FULL once workers and queue are taken', async (t) => {
+  const pool = new CompressionWorkerPool(1, 1, workerUrl);
+  t.after(() => pool.destroy());
+
+  const running = pool.run('hang-1', source, options, callbacks);
+  const queued = pool.run('hang-2', source, options, callbacks);
+  running.catch(() => {});
+  queued.catch(() => {});
+
+  assert.equal(pool.isFull(), true);
+  await assert.rejects(
+    pool.run('hang-3', source, options, callbacks),
+    (error) => error instanceof CompressionError && error.code === 'QUEUE_FULL'
+  );
+});
+
+test('cancelling a running job terminates its worker and frees the slot', async (t) => {
+  const pool = new CompressionWorkerPool(1, 1, workerUrl);
+  t.after(() => pool.destroy());
+
+  const running = pool.run('hang-1', source, options, callbacks);
+  const next = pool.run('ok-2', source, options, callbacks);
+
+  assert.equal(pool.cancel('hang-1'), true);
+  await assert.rejects(running, JobCancelledError);
+  assert.equal((await next).output.text, 'ok-2');
+  assert.equal(pool.cancel('hang-1'), false);
+});
+
+test('a worker that runs out of memory fails its job with INPUT_TOO_LARGE', async (t) => {
+  const pool = new CompressionWorkerPool(1, 1, workerUrl);
+  t.after(() => pool.destroy());
+
+  await assert.rejects(
+    pool.run('oom-1', source, options, callbacks),
+    (error) => error instanceof CompressionError && error.code === 'INPUT_TOO_LARGE'
+  );
+  // The pool replaces the crashed worker
+  assert.equal((await pool.run('ok-2', source, options, callbacks)).output.text, 'ok-2');
+});
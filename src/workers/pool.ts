@@ -0,0 +1,295 @@
+import { Worker } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import type { TaskProgress } from '../stores/task-store.js';
+import type { CompressionOptions, CompressionOutput } from '../pipeline/compress.js';
+import type { LogSource } from '../pipeline/source.js';
+import { CompressionError, type ErrorCode } from '../errors.js';
+
+/**
+ * Message sent from the pool to a worker to start a job.
+ */
+export interface WorkerRequest {
+  jobId: string;
+  source: LogSource;
+  options: CompressionOptions;
+}
+
+/**
+ * Messages sent from a worker back to the pool.
+ */
+export type WorkerResponse =
+  | { type: 'progress'; jobId: string; progress: TaskProgress }
+  | { type: 'result'; jobId: string; output: CompressionOutput; processingTimeMs: number }
+  | { type: 'error'; jobId: string; code: ErrorCode; message: string };
+
+/**
+ * Successful job outcome returned by CompressionWorkerPool.run().
+ */
+export interface JobResult {
+  output: CompressionOutput;
+  processingTimeMs: number;
+}
+
+/**
+ * Lifecycle callbacks for a pool job.
+ */
+export interface JobCallbacks {
+  /** Called when the job waits in the queue or moves up (1-based position) */
+  onQueued: (position: number) => void;
+
+  /** Called when a worker picks up the job */
+  onStart: () => void;
+
+  /** Called for each progress event from the worker */
+  onProgress: (progress: TaskProgress) => void;
+}
+
+/**
+ * Rejection reason for jobs stopped via CompressionWorkerPool.cancel().
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface Job {
+  request: WorkerRequest;
+  callbacks: JobCallbacks;
+  resolve: (result: JobResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface ActiveJob {
+  worker: Worker;
+  job: Job;
+}
+
+/**
+ * Pool size, which caps concurrent compressions: MCP_WORKER_POOL_SIZE
+ * env var, or one less than the available cores (keeping one for the
+ * main event loop), capped at 4.
+ */
+const DEFAULT_POOL_SIZE =
+  Number(process.env.MCP_WORKER_POOL_SIZE) ||
+  Math.max(1, Math.min(availableParallelism() - 1, 4));
+
+/** Maximum jobs waiting for a worker (MCP_MAX_QUEUED_TASKS, default: 16) */
+const DEFAULT_MAX_QUEUED = Number(process.env.MCP_MAX_QUEUED_TASKS) || 16;
+
+/** Optional per-worker heap limit in MB (MCP_WORKER_MAX_MEMORY_MB) */
+const WORKER_MAX_MEMORY_MB = Number(process.env.MCP_WORKER_MAX_MEMORY_MB) || undefined;
+
+// Resolved relative to the bundled dist/index.js (see tsup.config.ts)
+const DEFAULT_WORKER_URL = new URL('./workers/compress-worker.js', import.meta.url);
+
+/**
+ * Fixed-size pool of worker threads for async compression.
+ *
+ * Jobs beyond the pool size wait in a bounded FIFO queue. Cancelling a
+ * running job terminates its worker, which actually stops the Drain
+ * algorithm instead of just discarding its result.
+ */
+export class CompressionWorkerPool {
+  private idle: Worker[] = [];
+  private active: Map<string, ActiveJob> = new Map();
+  private queue: Job[] = [];
+  private workerCount = 0;
+
+  constructor(
+    private readonly size: number = DEFAULT_POOL_SIZE,
+    private readonly maxQueued: number = DEFAULT_MAX_QUEUED,
+    private readonly workerUrl: URL = DEFAULT_WORKER_URL
+  ) {}
+
+  /**
+   * Whether a new job would be rejected because all workers are busy
+   * and the queue is at capacity.
+   */
+  isFull(): boolean {
+    return this.active.size >= this.size && this.queue.length >= this.maxQueued;
+  }
+
+  /**
+   * Run a compression job on a worker thread.
+   * Resolves with the output, or rejects with JobCancelledError if cancelled
+   * and CompressionError('QUEUE_FULL') if the queue is at capacity.
+   */
+  run(
+    jobId: string,
+    source: LogSource,
+    options: CompressionOptions,
+    callbacks: JobCallbacks
+  ): Promise<JobResult> {
+    if (this.isFull()) {
+      return Promise.reject(
+        new CompressionError('QUEUE_FULL', `Task queue is full (${this.maxQueued} waiting)`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { jobId, source, options }, callbacks, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Cancel a queued or running job.
+   * Returns true if the job was found.
+   */
+  cancel(jobId: string): boolean {
+    const queuedIndex = this.queue.findIndex((job) => job.request.jobId === jobId);
+    if (queuedIndex !== -1) {
+      const [job] = this.queue.splice(queuedIndex, 1);
+      job.reject(new JobCancelledError(jobId));
+      this.notifyQueuePositions();
+      return true;
+    }
+
+    const running = this.active.get(jobId);
+    if (!running) return false;
+
+    this.active.delete(jobId);
+    this.discardWorker(running.worker);
+    running.job.reject(new JobCancelledError(jobId));
+    this.dispatch();
+    return true;
+  }
+
+  /**
+   * Terminate all workers and reject pending jobs.
+   */
+  async destroy(): Promise<void> {
+    for (const job of this.queue.splice(0)) {
+      job.reject(new JobCancelledError(job.request.jobId));
+    }
+
+    const workers = [...this.idle, ...Array.from(this.active.values(), (a) => a.worker)];
+    for (const { job } of this.active.values()) {
+      job.reject(new JobCancelledError(job.request.jobId));
+    }
+    this.idle = [];
+    this.active.clear();
+    this.workerCount = 0;
+
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  /**
+   * Start queued jobs while workers are available.
+   */
+  private dispatch(): void {
+    let started = false;
+
+    while (this.queue.length > 0) {
+      const worker = this.acquireWorker();
+      if (!worker) break;
+
+      const job = this.queue.shift()!;
+      this.active.set(job.request.jobId, { worker, job });
+      job.callbacks.onStart();
+      worker.postMessage(job.request);
+      started = true;
+    }
+
+    if (started || this.queue.length > 0) {
+      this.notifyQueuePositions();
+    }
+  }
+
+  private notifyQueuePositions(): void {
+    this.queue.forEach((job, index) => job.callbacks.onQueued(index + 1));
+  }
+
+  /**
+   * Reuse an idle worker or spawn a new one if under the pool size.
+   */
+  private acquireWorker(): Worker | undefined {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+    if (this.workerCount >= this.size) return undefined;
+
+    const worker = new Worker(this.workerUrl, {
+      ...(WORKER_MAX_MEMORY_MB && {
+        resourceLimits: { maxOldGenerationSizeMb: WORKER_MAX_MEMORY_MB },
+      }),
+    });
+    this.workerCount++;
+
+    worker.on('message', (message: WorkerResponse) => this.handleMessage(worker, message));
+    worker.on('error', (error) => this.handleCrash(worker, error));
+    worker.on('exit', (code) => {
+      if (code !== 0) {
+        this.handleCrash(worker, new Error(`Worker exited with code ${code}`));
+      }
+    });
+
+    return worker;
+  }
+
+  private handleMessage(worker: Worker, message: WorkerResponse): void {
+    const running = this.active.get(message.jobId);
+    // Late message from a cancelled job's worker
+    if (!running || running.worker !== worker) return;
+
+    switch (message.type) {
+      case 'progress':
+        running.job.callbacks.onProgress(message.progress);
+        return;
+      case 'result':
+        this.release(message.jobId, worker);
+        running.job.resolve({
+          output: message.output,
+          processingTimeMs: message.processingTimeMs,
+        });
+        return;
+      case 'error':
+        this.release(message.jobId, worker);
+        running.job.reject(new CompressionError(message.code, message.message));
+        return;
+    }
+  }
+
+  /**
+   * Fail the job running on a crashed worker.
+   * A worker that hits its heap limit reports INPUT_TOO_LARGE.
+   */
+  private handleCrash(worker: Worker, error: Error): void {
+    const outOfMemory = (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY';
+    const reason = outOfMemory
+      ? new CompressionError('INPUT_TOO_LARGE', 'Compression ran out of memory')
+      : new CompressionError('COMPRESSION_FAILED', error.message);
+
+    for (const [jobId, running] of this.active) {
+      if (running.worker === worker) {
+        this.active.delete(jobId);
+        running.job.reject(reason);
+        break;
+      }
+    }
+    this.discardWorker(worker);
+    this.dispatch();
+  }
+
+  /**
+   * Return a worker to the idle list after its job finished.
+   */
+  private release(jobId: string, worker: Worker): void {
+    this.active.delete(jobId);
+    this.idle.push(worker);
+    this.dispatch();
+  }
+
+  private discardWorker(worker: Worker): void {
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) this.idle.splice(idleIndex, 1);
+
+    worker.removeAllListeners();
+    worker.terminate().catch(() => {});
+    this.workerCount = Math.max(0, this.workerCount - 1);
+  }
+}
+
+// Singleton instance for the server
+export const compressionPool = new CompressionWorkerPool();
@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    // Worker thread for async compression, loaded by src/workers/pool.ts
+    'workers/compress-worker': 'src/workers/compress-worker.ts',
+  },
   format: ['esm'],
   dts: true,
   clean: true,